@@ -0,0 +1,143 @@
+import {
+	anyOfType,
+	arrayContaining,
+	AutoMockerPlus,
+	matchesRegex,
+	partialObject,
+	readObservableSynchronously,
+	satisfies,
+	UnmatchedArgumentsFallback
+} from "../src";
+import { argumentMatches } from "../src/argument-matchers";
+import { Observable, of } from "rxjs";
+import { describeEachSpyAdapter } from "./helpers/spy-adapters";
+
+class ArgumentMatchersTest {
+	public find(query: string | number | { id: number, tags?: string[] }, limit?: number): string {
+		return `${query}${limit}`;
+	}
+
+	public find$(query: string | number): Observable<string> {
+		return of(`${query}`);
+	}
+}
+
+describe("argument matchers", () => {
+	it("anyOfType should match primitives, instances and typeof names", () => {
+		expect(argumentMatches(anyOfType(Number), 1)).toBeTrue();
+		expect(argumentMatches(anyOfType(Number), "1")).toBeFalse();
+		expect(argumentMatches(anyOfType(Date), new Date())).toBeTrue();
+		expect(argumentMatches(anyOfType(Object), null)).toBeFalse();
+		expect(argumentMatches(anyOfType("string"), "a")).toBeTrue();
+		expect(anyOfType(String).toString()).toBe("anyOfType(String)");
+	});
+
+	it("partialObject should match objects containing the given properties", () => {
+		const matcher = partialObject<{ id: number, name: string }>({id: anyOfType(Number)});
+		expect(argumentMatches(matcher, {id: 1, name: "a"})).toBeTrue();
+		expect(argumentMatches(matcher, {name: "a"})).toBeFalse();
+		expect(argumentMatches(matcher, undefined)).toBeFalse();
+		expect(matcher.toString()).toBe('partialObject({"id":"anyOfType(Number)"})');
+	});
+
+	it("satisfies should match when the predicate returns true", () => {
+		expect(argumentMatches(satisfies((value: number) => value > 1, "greater than 1"), 2)).toBeTrue();
+		expect(argumentMatches(satisfies((value: number) => value > 1), 1)).toBeFalse();
+	});
+
+	it("matchesRegex should match strings", () => {
+		expect(argumentMatches(matchesRegex(/^user-/g), "user-1")).toBeTrue();
+		expect(argumentMatches(matchesRegex(/^user-/g), "user-2")).toBeTrue();
+		expect(argumentMatches(matchesRegex(/^user-/), 1)).toBeFalse();
+	});
+
+	it("arrayContaining should match arrays containing every item", () => {
+		expect(argumentMatches(arrayContaining("a", anyOfType(Number)), ["b", 1, "a"])).toBeTrue();
+		expect(argumentMatches(arrayContaining("a"), ["b"])).toBeFalse();
+		expect(argumentMatches(arrayContaining("a"), "a")).toBeFalse();
+	});
+
+	it("should work inside jasmine equality checks", () => {
+		expect({id: 1}).toEqual(partialObject({id: 1}));
+	});
+});
+
+describe("AutoMocker with argument matchers", () => {
+	describeEachSpyAdapter((createSpyAdapter) => {
+		let autoMocker: AutoMockerPlus;
+		let mock: ArgumentMatchersTest;
+
+		beforeEach(() => {
+			autoMocker = new AutoMockerPlus({spyAdapter: createSpyAdapter()});
+			mock = autoMocker.mockClass(ArgumentMatchersTest);
+		});
+
+		it("should match withReturnForArguments using matchers", () => {
+			autoMocker.withReturnForArguments(mock.find, [matchesRegex(/^a/), anyOfType(Number)], "regex");
+			autoMocker.withReturnForArguments(mock.find, [partialObject({tags: arrayContaining("x")}), undefined], "partial");
+
+			expect(mock.find("abc", 1)).toBe("regex");
+			expect(mock.find({id: 1, tags: ["y", "x"]}, undefined)).toBe("partial");
+			expect(mock.find("bcd", 1)).toBeUndefined();
+		});
+
+		it("should return the fallback value when nothing matches", () => {
+			autoMocker.withReturnForArguments(mock.find, ["a", 1], "a");
+			autoMocker.withUnmatchedArgumentsFallback(mock.find, UnmatchedArgumentsFallback.returnValue("default"));
+
+			expect(mock.find("a", 1)).toBe("a");
+			expect(mock.find("b", 1)).toBe("default");
+		});
+
+		it("should throw with the registered matchers when nothing matches", () => {
+			autoMocker.withReturnForArguments(mock.find, [matchesRegex(/^a/), anyOfType(Number)], "a");
+			autoMocker.withUnmatchedArgumentsFallback(mock.find, UnmatchedArgumentsFallback.throwError(), "finder");
+
+			expect(() => mock.find("b", 1)).toThrowError(
+				'finder was called with ("b", 1), which matches none of the registered arguments:\n  (matchesRegex(/^a/), anyOfType(Number))'
+			);
+		});
+
+		it("should call through when nothing matches", () => {
+			const spy = autoMocker.mockFunction("find", (query: string) => `original ${query}`);
+			autoMocker.withReturnForArguments(spy, ["a"], "a");
+			autoMocker.withUnmatchedArgumentsFallback(spy, UnmatchedArgumentsFallback.callThrough());
+
+			expect(spy("a")).toBe("a");
+			expect(spy("b")).toBe("original b");
+		});
+
+		it("should map the first argument using matchers", () => {
+			autoMocker.withFirstArgMappedReturn(mock.find, [
+				[anyOfType(Number), "number"],
+				[matchesRegex(/^a/), "a"]
+			], UnmatchedArgumentsFallback.throwError());
+
+			expect(mock.find(1)).toBe("number");
+			expect(mock.find("abc")).toBe("a");
+			expect(() => mock.find("b")).toThrowError(/matches none of the registered arguments:\n  \(anyOfType\(Number\)\)\n  \(matchesRegex\(\/\^a\/\)\)/);
+		});
+
+		it("should apply the fallbacks to withFirstArgMappedReturn", () => {
+			const spy = autoMocker.mockFunction("find", (query: string) => `original ${query}`);
+			autoMocker.withFirstArgMappedReturn(spy, {a: "a"}, UnmatchedArgumentsFallback.callThrough());
+			expect(spy("a")).toBe("a");
+			expect(spy("b")).toBe("original b");
+
+			autoMocker.withFirstArgMappedReturn(spy, {a: "a"}, UnmatchedArgumentsFallback.returnValue("default"));
+			expect(spy("b")).toBe("default");
+		});
+
+		it("should map the first argument of observables using matchers", () => {
+			autoMocker.withFirstArgMappedReturnObservable(mock.find$, [[anyOfType(Number), "number"]], "default");
+
+			expect(readObservableSynchronously(mock.find$(1))).toBe("number");
+			expect(readObservableSynchronously(mock.find$("a"))).toBe("default");
+		});
+
+		it("should throw an error when method is not a spy", () => {
+			expect(() => autoMocker.withUnmatchedArgumentsFallback(() => {
+			}, UnmatchedArgumentsFallback.callThrough())).toThrowError();
+		});
+	});
+});
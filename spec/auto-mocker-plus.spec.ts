@@ -321,4 +321,17 @@ describe("AutoMockerPlus", () => {
 			});
 		});
 	});
+
+	describe("mockFunction", () => {
+		it("should work with the observable and promise helpers", async () => {
+			const load$ = autoMocker.mockFunction<(id: number) => Observable<string>>("load$");
+			const save = autoMocker.mockFunction<(value: string) => Promise<boolean>>("save");
+
+			autoMocker.withReturnObservable(load$, "loaded");
+			autoMocker.withReturnPromise(save, true);
+
+			expect(readObservableSynchronously(load$(1))).toEqual("loaded");
+			expect(await save("value")).toBeTrue();
+		});
+	});
 });
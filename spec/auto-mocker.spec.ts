@@ -1,5 +1,7 @@
 import { AutoMocker } from '../src/autoMocker';
 import {isEmpty} from "lodash";
+import { Observable } from "rxjs";
+import { spyAdapterMatrix } from "./helpers/spy-adapters";
 
 class TestEmptyAutoMocker {
 }
@@ -28,6 +30,50 @@ class TestAutoMocker {
 	}
 }
 
+interface ITestService {
+	readonly current: string;
+	limit: number;
+	changes$: Observable<string>;
+
+	load(id: number): string;
+
+	save(value: string): void;
+}
+
+abstract class TestAbstractAutoMocker {
+	public abstract readonly name: string;
+
+	public abstract load(id: number): string;
+
+	public describe(): string {
+		return this.name;
+	}
+}
+
+class TestUserService {
+	public load(id: number): string {
+		return `${id}`;
+	}
+}
+
+class TestOrdersApi {
+	public readonly users: TestUserService = new TestUserService();
+
+	public count(): number {
+		return 0;
+	}
+}
+
+class TestFacade {
+	public get userService(): TestUserService {
+		return new TestUserService();
+	}
+
+	public orders(): TestOrdersApi {
+		return new TestOrdersApi();
+	}
+}
+
 describe("AutoMocker", () => {
 	let autoMocker: AutoMocker;
 
@@ -69,6 +115,193 @@ describe("AutoMocker", () => {
 		});
 	});
 
+	describe("mockInterface", () => {
+		it("should create spies for the listed members", () => {
+			const mock = autoMocker.mockInterface<ITestService>("ITestService", {
+				methods: ["load", "save"],
+				getters: ["current", "limit"],
+				setters: ["limit"],
+				observables: ["changes$"]
+			});
+
+			autoMocker.withReturnValue(mock.load, "loaded");
+			autoMocker.withReturnGetterValue(mock, "current", "value");
+			mock.limit = 5;
+
+			expect(mock.load(1)).toBe("loaded");
+			expect(mock.current).toBe("value");
+			expect(autoMocker.getCallCount(mock.save)).toBe(0);
+			expect(autoMocker.getCallArgs(autoMocker.getPropertyAccessorSpy(mock, "limit", "set"))).toEqual([5]);
+			const next = jasmine.createSpy("next");
+			mock.changes$.subscribe(next).unsubscribe();
+			expect(next).not.toHaveBeenCalled();
+		});
+
+		it("should name the spies after the interface", () => {
+			const mock = autoMocker.mockInterface<ITestService>("ITestService", {methods: ["load"], strict: true});
+			expect(() => mock.load(1)).toThrowError(
+				"Strict mock ITestService.load was called with (1) but has not been configured."
+				+ `\n\nSeed of the mocked values: ${autoMocker.seed}`
+			);
+		});
+
+		it("should create an empty mock when no members are listed", () => {
+			expect(isEmpty(autoMocker.mockInterface<ITestService>("ITestService"))).toBeTrue();
+		});
+	});
+
+	describe("mockClass with abstract classes", () => {
+		it("should mock implemented and declared abstract members", () => {
+			const mock = autoMocker.mockClass(TestAbstractAutoMocker, {
+				abstractMembers: {methods: ["load"], getters: ["name"]}
+			});
+
+			autoMocker.withReturnValue(mock.load, "loaded");
+			autoMocker.withReturnGetterValue(mock, "name", "abstract");
+
+			expect(mock.load(1)).toBe("loaded");
+			expect(mock.name).toBe("abstract");
+			expect(mock.describe()).toBeUndefined();
+		});
+
+		it("should apply strict mode to abstract members", () => {
+			const mock = autoMocker.mockClass(TestAbstractAutoMocker, {
+				abstractMembers: {methods: ["load"]},
+				strict: true
+			});
+			expect(() => mock.load(1)).toThrowError(/Strict mock TestAbstractAutoMocker\.load/);
+		});
+	});
+
+	describe("mockClass with nested mocks", () => {
+		it("should wire up nested mocks returned by getters and methods", () => {
+			const mock = autoMocker.mockClass(TestFacade, {nested: {userService: TestUserService, orders: TestOrdersApi}});
+
+			const userService = autoMocker.getNestedMock(mock, "userService");
+			autoMocker.withReturnValue(userService.load, "loaded");
+
+			expect(mock.userService).toBe(userService);
+			expect(mock.userService.load(1)).toBe("loaded");
+			expect(mock.orders()).toBe(autoMocker.getNestedMock(mock, "orders"));
+		});
+
+		it("should create nested mocks recursively up to maxDepth", () => {
+			const options = {
+				nested: {orders: {type: TestOrdersApi, options: {nested: {users: TestUserService}}}}
+			};
+			const deepMocker = new AutoMocker({maxDepth: 2});
+
+			const deepMock = deepMocker.mockClass(TestFacade, options);
+			const shallowMock = autoMocker.mockClass(TestFacade, options);
+
+			expect(deepMock.orders().users).toBe(deepMocker.getNestedMock(deepMock.orders(), "users"));
+			expect(autoMocker.getNestedMock(shallowMock, "orders").users).toBeUndefined();
+			expect(() => autoMocker.getNestedMock(shallowMock.orders(), "users")).toThrowError(
+				/TestOrdersApi\.users has no nested mock/
+			);
+		});
+
+		it("should keep nested mocks strict", () => {
+			const mock = autoMocker.mockClass(TestFacade, {nested: {userService: TestUserService}, strict: true});
+			expect(() => mock.userService.load(1)).toThrowError(/Strict mock TestUserService\.load/);
+		});
+
+		it("should keep the nested mocks wired up after resetAllBehaviors", () => {
+			const mock = autoMocker.mockClass(TestFacade, {nested: {userService: TestUserService, orders: TestOrdersApi}});
+			const strictMock = autoMocker.mockClass(TestFacade, {nested: {orders: TestOrdersApi}, strict: true});
+			autoMocker.withReturnValue(mock.orders, undefined);
+
+			autoMocker.resetAllBehaviors();
+
+			expect(mock.orders()).toBe(autoMocker.getNestedMock(mock, "orders"));
+			expect(mock.userService).toBe(autoMocker.getNestedMock(mock, "userService"));
+			expect(strictMock.orders()).toBe(autoMocker.getNestedMock(strictMock, "orders"));
+		});
+	});
+
+	describe("mockClass with stateful properties", () => {
+		it("should return the value that was set", () => {
+			const mock = autoMocker.mockClass(TestAutoMocker, {statefulProperties: true});
+
+			expect(mock.Value).toBeUndefined();
+			mock.Value = 5;
+
+			expect(mock.Value).toBe(5);
+			expect(autoMocker.getCallCount(autoMocker.getPropertyAccessorSpy(mock, "Value", "set"))).toBe(1);
+			expect(autoMocker.getCallCount(autoMocker.getPropertyAccessorSpy(mock, "Value", "get"))).toBe(2);
+		});
+
+		it("should seed the backing values", () => {
+			const mock = autoMocker.mockClass(TestAutoMocker, {statefulProperties: {Value: 3, Values: 7}});
+
+			expect(mock.Value).toBe(3);
+			expect(mock.Values).toBe(7);
+		});
+
+		it("should let withReturnGetterValue and resetAccessorSpy override the state", () => {
+			const mock = autoMocker.mockClass(TestAutoMocker, {statefulProperties: {Value: 3}, strict: true});
+
+			autoMocker.withReturnGetterValue(mock, "Value", 10);
+			mock.Value = 5;
+			autoMocker.resetAccessorSpy(mock, "Value", "set");
+
+			expect(mock.Value).toBe(10);
+			expect(autoMocker.getCallCount(autoMocker.getPropertyAccessorSpy(mock, "Value", "set"))).toBe(0);
+		});
+
+		it("should go back to the initial values on resetAllBehaviors", () => {
+			const mock = autoMocker.mockClass(TestAutoMocker, {statefulProperties: {Value: 3}});
+			mock.Value = 5;
+			autoMocker.withReturnGetterValue(mock, "Value", 10);
+
+			autoMocker.resetAllBehaviors();
+
+			expect(mock.Value).toBe(3);
+			mock.Value = 6;
+			expect(mock.Value).toBe(6);
+		});
+	});
+
+	describe("strict", () => {
+		it("should throw with the class, method and arguments when an unconfigured method is called", () => {
+			const mock = autoMocker.mockClass(TestAutoMocker, {strict: true});
+			expect(() => mock.add(2, 3)).toThrowError(
+				"Strict mock TestAutoMocker.add was called with (2, 3) but has not been configured."
+				+ `\n\nSeed of the mocked values: ${autoMocker.seed}`
+			);
+		});
+
+		it("should not throw once the method is configured", () => {
+			const mock = autoMocker.mockClass(TestAutoMocker, {strict: true});
+			autoMocker.withReturnValue(mock.add, 10);
+			expect(mock.add(2, 3)).toBe(10);
+		});
+
+		it("should only allow the configured arguments when configured with withReturnForArguments", () => {
+			const mock = autoMocker.mockClass(TestAutoMocker, {strict: true});
+			autoMocker.withReturnForArguments(mock.add, [2, 3], 10);
+			expect(mock.add(2, 3)).toBe(10);
+			expect(() => mock.add(3, 4)).toThrowError(/TestAutoMocker\.add was called with \(3, 4\)/);
+		});
+
+		it("should apply to accessor spies", () => {
+			const mock = autoMocker.mockClass(TestAutoMocker, {strict: true});
+			expect(() => mock.Value).toThrowError(/TestAutoMocker\.Value \(get\) was called with \(\)/);
+			expect(() => {
+				mock.Value = 5;
+			}).toThrowError(/TestAutoMocker\.Value \(set\) was called with \(5\)/);
+
+			autoMocker.withReturnGetterValue(mock, "Value", 123);
+			expect(mock.Value).toBe(123);
+		});
+
+		it("should use the strict value of the AutoMocker by default", () => {
+			const strictMocker = new AutoMocker({strict: true});
+			expect(() => strictMocker.mockClass(TestAutoMocker).add(1, 2)).toThrowError(/Strict mock/);
+			expect(strictMocker.mockClass(TestAutoMocker, {strict: false}).add(1, 2)).toBeUndefined();
+		});
+	});
+
 	describe("mock", () => {
 		it("should mock an object", () => {
 			const fn = {
@@ -81,13 +314,148 @@ describe("AutoMocker", () => {
 			expect((fn.method as jasmine.Spy).calls).toBeDefined();
 		});
 
-		// TODO: need to understand why this doesn't work
-		// xit("should mock a function", () => {
-		// 	let fn = () => 123;
-		// 	autoMocker.mock("fn", fn);
-		// 	console.log(fn)
-		// 	expect((fn as jasmine.Spy).calls).toBeDefined();
-		// });
+		it("should generate the same values for the same seed", () => {
+			const createObject = () => ({
+				str: "value",
+				num: 1,
+				date: new Date(),
+				nested: {
+					str: "nested"
+				}
+			});
+			const first = createObject();
+			const second = createObject();
+
+			new AutoMocker({seed: 1234}).mock("obj", first);
+			new AutoMocker({seed: 1234}).mock("obj", second);
+
+			expect(second).toEqual(first);
+			expect(first.str.startsWith("obj.str")).toBeTrue();
+		});
+
+		it("should allow the seed to be overridden per call", () => {
+			const seededMocker = new AutoMocker({seed: 1});
+			const first = {num: 1};
+			const second = {num: 1};
+
+			seededMocker.mock("obj", first, {seed: 42});
+			new AutoMocker({seed: 42}).mock("obj", second);
+
+			expect(first.num).toEqual(second.num);
+			expect(seededMocker.seed).toEqual(1);
+		});
+
+		it("should not carry a per-call seed over to later calls and report the seed used", () => {
+			const seededMocker = new AutoMocker({seed: 1});
+			const first = {num: 1};
+			const second = {num: 1};
+
+			const overridden = seededMocker.mock("obj", {num: 1}, {seed: 42});
+			const sandbox = seededMocker.mock("obj", first);
+			new AutoMocker({seed: 1}).mock("obj", second);
+
+			expect(first.num).toEqual(second.num);
+			expect(overridden.seed).toEqual(42);
+			expect(sandbox.seed).toEqual(1);
+		});
+
+		spyAdapterMatrix.forEach(([description, createSpyAdapter]) => {
+			it(`should restore the mocked object with the ${description}`, () => {
+				const instance = new TestAutoMocker();
+				const method = () => 45;
+				const config = {
+					name: "config",
+					count: 3,
+					items: ["a"],
+					method,
+					instance,
+					nested: {
+						url: "http://localhost"
+					}
+				};
+
+				const sandbox = new AutoMocker({spyAdapter: createSpyAdapter()}).mock("config", config, 10);
+				expect(config.name).not.toEqual("config");
+				expect(config.nested.url).not.toEqual("http://localhost");
+				expect(config.method).not.toBe(method);
+
+				sandbox.restore();
+
+				expect(config).toEqual({
+					name: "config",
+					count: 3,
+					items: ["a"],
+					method,
+					instance,
+					nested: {
+						url: "http://localhost"
+					}
+				});
+				expect(config.method).toBe(method);
+				expect(instance.Value).toEqual(4);
+				expect(Object.getOwnPropertyDescriptor(TestAutoMocker.prototype, "Value").get.name).toEqual("get Value");
+			});
+		});
+
+		it("should expose a generated seed when none is provided", () => {
+			expect(typeof autoMocker.seed).toEqual("number");
+		});
+
+		it("should mock the own properties of a function", () => {
+			const helper = () => 1;
+			const fn = Object.assign(() => 123, {helper, label: "fn"});
+
+			const sandbox = autoMocker.mock("fn", fn);
+
+			expect((fn.helper as jasmine.Spy).calls).toBeDefined();
+			expect(fn.label).not.toEqual("fn");
+			expect(fn()).toEqual(123);
+			expect(jasmine.isSpy(Function.prototype.call)).toBeFalse();
+
+			sandbox.restore();
+			expect(fn.helper).toBe(helper);
+		});
+
+		it("should mock functions of nested objects and arrays", () => {
+			const obj = {
+				nested: {
+					load: () => 1
+				},
+				callbacks: [() => 2]
+			};
+
+			autoMocker.mock("obj", obj, 10);
+
+			expect(obj.nested.load()).toBeUndefined();
+			expect(autoMocker.getCallCount(obj.nested.load)).toEqual(1);
+			expect(obj.callbacks[0]()).toBeUndefined();
+		});
+	});
+
+	describe("mockFunction", () => {
+		it("should create a named spy that works with the with* and getCall* methods", () => {
+			const fn = autoMocker.mockFunction<(value: string) => number>("callback");
+
+			expect(fn("a")).toBeUndefined();
+			autoMocker.withReturnValue(fn, 5);
+			expect(fn("b")).toEqual(5);
+			expect(autoMocker.getCallCount(fn)).toEqual(2);
+			expect(autoMocker.getCallArgs(fn, 1)).toEqual(["b"]);
+			expect(autoMocker.getRegisteredMocks("callback")[0].spies).toEqual([fn]);
+		});
+
+		it("should call through to the original function", () => {
+			const fn = autoMocker.mockFunction("add", (a: number, b: number) => a + b);
+			autoMocker.withCallThrough(fn);
+			expect(fn(1, 2)).toEqual(3);
+		});
+
+		it("should be strict when the AutoMocker is", () => {
+			const fn = new AutoMocker({strict: true, seed: 3}).mockFunction<(value: number) => void>("callback");
+			expect(() => fn(1)).toThrowError(
+				"Strict mock callback was called with (1) but has not been configured.\n\nSeed of the mocked values: 3"
+			);
+		});
 	});
 
 	describe("withCallFake", () => {
@@ -0,0 +1,126 @@
+import { AutoMocker } from "../src/autoMocker";
+import { BuiltInSpyAdapter } from "../src";
+import { describeEachSpyAdapter } from "./helpers/spy-adapters";
+
+class Counter {
+	private count = 0;
+
+	public get value(): number {
+		return this.count;
+	}
+
+	public set value(value: number) {
+		this.count = value;
+	}
+
+	public add(amount: number, label?: string): number {
+		this.count += amount;
+		return this.count;
+	}
+
+	public fail(message: string): never {
+		throw new Error(message);
+	}
+}
+
+describe("AutoMocker call inspection", () => {
+	describeEachSpyAdapter((createSpyAdapter) => {
+		let autoMocker: AutoMocker;
+		let counter: Counter;
+
+		beforeEach(() => {
+			autoMocker = new AutoMocker({spyAdapter: createSpyAdapter()});
+			counter = autoMocker.mockClass(Counter);
+		});
+
+		it("should retrieve the last call and every call", () => {
+			counter.add(1);
+			counter.add(2, "two");
+
+			expect(autoMocker.getLastCallArgs(counter.add)).toEqual([2, "two"]);
+			expect(autoMocker.getAllCallArgs(counter.add)).toEqual([[1], [2, "two"]]);
+			expect(autoMocker.getCalls(counter.add).length).toBe(2);
+			expect(autoMocker.getLastCall(counter.add).args).toEqual([2, "two"]);
+		});
+
+		it("should return nothing for a spy that was not called", () => {
+			expect(autoMocker.getLastCall(counter.add)).toBeUndefined();
+			expect(autoMocker.getLastCallArgs(counter.add)).toEqual([]);
+			expect(autoMocker.getAllCallArgs(counter.add)).toEqual([]);
+		});
+
+		it("should retrieve the this context of each call", () => {
+			const other = { add: counter.add };
+			counter.add(1);
+			other.add(2);
+
+			expect(autoMocker.getCallThis(counter.add)).toBe(counter);
+			expect(autoMocker.getCallThis(counter.add, 1)).toBe(other);
+		});
+
+		it("should retrieve the values returned by a call-through spy", () => {
+			const calculator = { double: (value: number): number => value * 2 };
+			autoMocker.mock("calculator", calculator);
+			autoMocker.withCallThrough(calculator.double);
+			calculator.double(2);
+			calculator.double(3);
+
+			expect(autoMocker.getCallReturnValue(calculator.double)).toBe(4);
+			expect(autoMocker.getCallReturnValue(calculator.double, 1)).toBe(6);
+			expect(() => autoMocker.getCallError(calculator.double)).toThrowError(
+				"getCallError: call 0 of calculator.double returned 4 instead of throwing."
+				+ `\n\nSeed of the mocked values: ${autoMocker.seed}`
+			);
+		});
+
+		it("should report calls that threw", () => {
+			const parser = { parse: (text: string): unknown => JSON.parse(text) };
+			autoMocker.mock("parser", parser);
+			autoMocker.withCallThrough(parser.parse);
+			expect(() => parser.parse("{")).toThrowError(SyntaxError);
+
+			expect(autoMocker.getCalls(parser.parse)[0].threw).toBeTrue();
+			expect(() => autoMocker.getCallReturnValue(parser.parse)).toThrowError(
+				/^getCallReturnValue: call 0 of parser\.parse threw instead of returning/
+			);
+		});
+
+		it("should throw an error for a call index that was not reached", () => {
+			counter.add(1);
+
+			expect(() => autoMocker.getCallThis(counter.add, 1)).toThrowError(
+				"getCallThis: Counter.add was called 1 time(s), so there is no call at index 1."
+			);
+		});
+
+		it("should inspect accessor spies", () => {
+			const getter = autoMocker.getPropertyAccessorSpy(counter, "value", "get");
+			const setter = autoMocker.getPropertyAccessorSpy(counter, "value", "set");
+			autoMocker.withReturnGetterValue(counter, "value", 4);
+			counter.value = 1;
+			counter.value = 2;
+			void counter.value;
+
+			expect(autoMocker.getLastCallArgs(setter)).toEqual([2]);
+			expect(autoMocker.getAllCallArgs(setter)).toEqual([[1], [2]]);
+			expect(autoMocker.getCallThis(setter)).toBe(counter);
+			expect(autoMocker.getCallReturnValue(getter)).toBe(4);
+		});
+
+		it("should throw an error when the spy is not a spy", () => {
+			expect(() => autoMocker.getCalls(() => undefined)).toThrowError(/not an actual spy/);
+		});
+	});
+
+	it("should record the errors thrown by built-in spies", () => {
+		const autoMocker = new AutoMocker({spyAdapter: new BuiltInSpyAdapter()});
+		const counter = autoMocker.mockClass(Counter);
+		const error = new Error("boom");
+		autoMocker.withCallFake(counter.fail, () => {
+			throw error;
+		});
+
+		expect(() => counter.fail("boom")).toThrow(error);
+		expect(autoMocker.getCallError(counter.fail)).toBe(error);
+	});
+});
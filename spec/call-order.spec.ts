@@ -0,0 +1,85 @@
+import { AutoMocker } from "../src/autoMocker";
+import { anyOfType } from "../src";
+import { Notifier, Repository } from "./helpers/fixtures";
+import { describeEachSpyAdapter } from "./helpers/spy-adapters";
+
+class Cache {
+	public invalidate(): void {
+		// intentionally empty
+	}
+}
+
+describe("AutoMocker.verifyInOrder", () => {
+	describeEachSpyAdapter((createSpyAdapter) => {
+		let autoMocker: AutoMocker;
+		let repository: Repository;
+		let notifier: Notifier;
+		let cache: Cache;
+
+		beforeEach(() => {
+			autoMocker = new AutoMocker({spyAdapter: createSpyAdapter()});
+			repository = autoMocker.mockClass(Repository);
+			notifier = autoMocker.mockClass(Notifier);
+			cache = autoMocker.mockClass(Cache);
+		});
+
+		it("should pass when spies from different mocks were called in order", () => {
+			repository.save("value");
+			notifier.send("saved");
+
+			expect(() => autoMocker.verifyInOrder(repository.save, notifier.send)).not.toThrow();
+		});
+
+		it("should fail and print the timeline when spies were called out of order", () => {
+			notifier.send("saved");
+			repository.save("value");
+
+			expect(() => autoMocker.verifyInOrder(repository.save, notifier.send)).toThrowError(
+				"Expected Notifier.send to be called after Repository.save, but no such call was found."
+				+ "\nExpected order:\n  1. Repository.save\n  2. Notifier.send"
+				+ '\nActual calls:\n  1. Notifier.send("saved")\n  2. Repository.save("value")'
+				+ `\n\nSeed of the mocked values: ${autoMocker.seed}`
+			);
+		});
+
+		it("should verify that a call happened between two other calls", () => {
+			repository.load(1);
+			cache.invalidate();
+			repository.load(2);
+
+			expect(() => autoMocker.verifyInOrder(repository.load, cache.invalidate, repository.load)).not.toThrow();
+			expect(() => autoMocker.verifyInOrder(cache.invalidate, repository.load, repository.load)).toThrowError(
+				/Expected Repository\.load to be called after Repository\.load/
+			);
+		});
+
+		it("should check argument expectations", () => {
+			repository.load(1);
+			notifier.send("loaded");
+			repository.load(2);
+
+			expect(() => autoMocker.verifyInOrder(
+				{spy: notifier.send, args: ["loaded"]},
+				{spy: repository.load, args: [2]}
+			)).not.toThrow();
+			expect(() => autoMocker.verifyInOrder(
+				{spy: repository.load, args: [2]},
+				{spy: notifier.send, args: [anyOfType(String)]}
+			)).toThrowError(/Expected Notifier\.send\(anyOfType\(String\)\) to be called after Repository\.load\(2\)/);
+		});
+
+		it("should use the provided spy name and report missing calls", () => {
+			expect(() => autoMocker.verifyInOrder({spy: cache.invalidate, spyName: "cache.invalidate"})).toThrowError(
+				"Expected cache.invalidate to be called, but no such call was found."
+				+ "\nExpected order:\n  1. cache.invalidate"
+				+ "\nActual calls:\n  (no calls)"
+				+ `\n\nSeed of the mocked values: ${autoMocker.seed}`
+			);
+		});
+
+		it("should throw an error when a step is not a spy", () => {
+			expect(() => autoMocker.verifyInOrder(() => {
+			})).toThrowError(/not an actual spy/);
+		});
+	});
+});
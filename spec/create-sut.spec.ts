@@ -0,0 +1,124 @@
+import { AutoMocker } from "../src/autoMocker";
+import { UnconfiguredStrictSpyError } from "../src";
+import { Repository } from "./helpers/fixtures";
+import { describeEachSpyAdapter } from "./helpers/spy-adapters";
+
+class Logger {
+	public log(message: string): void {
+		console.log(message);
+	}
+}
+
+abstract class Storage {
+	public abstract save(key: string, value: string): void;
+}
+
+interface IServiceConfig {
+	prefix: string;
+}
+
+const SERVICE_CONFIG = Symbol("SERVICE_CONFIG");
+const STORAGE = "STORAGE";
+
+class UserService {
+	constructor(private readonly repository: Repository, private readonly logger: Logger) {}
+
+	public getUser(id: number): string {
+		this.logger.log(`loading ${id}`);
+		return this.repository.load(id);
+	}
+}
+
+class CopyService {
+	constructor(private readonly source: Repository, private readonly target: Repository) {}
+
+	public copy(id: number): string {
+		return this.source.load(id) ?? this.target.load(id);
+	}
+}
+
+class ReportService {
+	constructor(
+		private readonly repository: Repository,
+		private readonly config: IServiceConfig,
+		private readonly storage: Storage
+	) {}
+
+	public store(id: number): void {
+		this.storage.save(`${this.config.prefix}${id}`, this.repository.load(id));
+	}
+}
+
+describe("AutoMocker.createSut", () => {
+	describeEachSpyAdapter((createSpyAdapter) => {
+		let autoMocker: AutoMocker;
+
+		beforeEach(() => {
+			autoMocker = new AutoMocker({spyAdapter: createSpyAdapter()});
+		});
+
+		it("should pass a mock of each dependency by position", () => {
+			const { sut, mocks: [repository, logger] } = autoMocker.createSut(UserService, [Repository, Logger]);
+			autoMocker.withReturnValue(repository.load, "Ada");
+
+			expect(sut.getUser(1)).toBe("Ada");
+			expect(autoMocker.getCallArgs(logger.log)).toEqual(["loading 1"]);
+		});
+
+		it("should resolve dependencies defined through tokens", () => {
+			const config: IServiceConfig = { prefix: "report-" };
+			const { sut, getMock } = autoMocker.createSut(ReportService, [
+				Repository,
+				{ token: SERVICE_CONFIG, value: config },
+				{ token: STORAGE, type: Storage, options: { abstractMembers: { methods: ["save"] } } }
+			]);
+			const storage = getMock<Storage>(STORAGE);
+			autoMocker.withReturnValue(getMock(Repository).load, "data");
+
+			sut.store(7);
+
+			expect(getMock(SERVICE_CONFIG)).toBe(config);
+			expect(autoMocker.getCallArgs(storage.save)).toEqual(["report-7", "data"]);
+		});
+
+		it("should apply the mock options of each dependency", () => {
+			const { sut } = autoMocker.createSut(UserService, [Repository, Logger], [{ strict: true }]);
+
+			expect(() => sut.getUser(1)).toThrowError(UnconfiguredStrictSpyError);
+		});
+
+		it("should throw when a dependency has no mock", () => {
+			const { getMock } = autoMocker.createSut(UserService, [Repository, Logger]);
+
+			expect(() => getMock(Storage)).toThrowError("createSut: UserService has no dependency for [Function Storage].");
+		});
+
+		it("should pass the same class twice by position", () => {
+			const { sut, mocks: [source, target], getMock } = autoMocker.createSut(CopyService, [Repository, Repository]);
+			autoMocker.withReturnValue(source.load, "data");
+
+			expect(sut.copy(1)).toBe("data");
+			expect(source).not.toBe(target);
+			expect(() => getMock(Repository)).toThrowError(
+				"createSut: dependencies 0, 1 of CopyService share the token [Function Repository]. Use mocks by position or distinct tokens."
+			);
+		});
+
+		it("should accept several values without a token", () => {
+			const config: IServiceConfig = { prefix: "report-" };
+			const storage = { save: (): void => undefined };
+
+			const { sut, mocks } = autoMocker.createSut(ReportService, [Repository, { value: config }, { value: storage }]);
+
+			expect(mocks[1]).toBe(config);
+			expect(mocks[2]).toBe(storage);
+			expect(() => sut.store(1)).not.toThrow();
+		});
+
+		it("should throw when a definition has neither a type nor a value", () => {
+			expect(() => autoMocker.createSut(UserService, [Repository, { token: "logger" }])).toThrowError(
+				"createSut: dependency 1 of UserService has neither a type to mock nor a value."
+			);
+		});
+	});
+});
@@ -0,0 +1,99 @@
+import { AutoMockerPlus } from "../src";
+import { Repository } from "./helpers/fixtures";
+import { describeEachSpyAdapter } from "./helpers/spy-adapters";
+
+declare global {
+	namespace jasmine {
+		interface Matchers<T> {
+			toBePrinted(): boolean;
+		}
+	}
+}
+
+describe("AutoMocker.describeMock", () => {
+	describeEachSpyAdapter((createSpyAdapter) => {
+		let autoMocker: AutoMockerPlus;
+		let repository: Repository;
+
+		beforeEach(() => {
+			autoMocker = new AutoMockerPlus({spyAdapter: createSpyAdapter()});
+			repository = autoMocker.mockClass(Repository);
+		});
+
+		it("should describe the behavior and calls of every member", () => {
+			autoMocker.withReturnValue(repository.load, "loaded");
+			autoMocker.withReturnForArguments(repository.load, [2], "two");
+			autoMocker.withReturnObservable(repository.load$, "loaded");
+			repository.load(1);
+			repository.load(2);
+
+			expect(autoMocker.describeMock(repository)).toBe(
+				"Repository {"
+				+ '\n  load: returns "loaded"; returns "two" for (2); called 2 times: (1), (2)'
+				+ "\n  load$: returns an observable; never called"
+				+ "\n  save: not configured; never called"
+				+ "\n  isReady (get): calls through; never called"
+				+ "\n  isReady (set): not configured; never called"
+				+ "\n}"
+			);
+		});
+
+		it("should describe fakes, errors and strict spies", () => {
+			const strictRepository = autoMocker.mockClass(Repository, {strict: true});
+			autoMocker.withCallFake(strictRepository.load, function loadFake() {
+				return "fake";
+			});
+			autoMocker.withThrows(strictRepository.load$, "failed");
+
+			expect(autoMocker.describeMock(strictRepository)).toBe(
+				"Repository {"
+				+ "\n  load: calls fake loadFake; never called"
+				+ '\n  load$: throws "failed"; never called'
+				+ "\n  save: strict, throws until configured; never called"
+				+ "\n  isReady (get): strict, throws until configured; never called"
+				+ "\n  isReady (set): strict, throws until configured; never called"
+				+ "\n}"
+			);
+		});
+
+		it("should describe standalone functions and reset descriptions", () => {
+			const callback = autoMocker.mockFunction<(value: string) => Promise<number>>("callback");
+			autoMocker.withReturnPromise(callback, 1);
+			callback("a");
+
+			expect(autoMocker.describeMock(callback)).toBe(
+				'callback {\n  (): returns a promise; called 1 time: ("a")\n}'
+			);
+
+			autoMocker.resetAllBehaviors();
+			expect(autoMocker.describeMock(callback)).toBe("callback {\n  (): not configured; never called\n}");
+		});
+	});
+
+	describe("registerJasmineMockFormatter", () => {
+		let autoMocker: AutoMockerPlus;
+
+		beforeEach(() => {
+			autoMocker = new AutoMockerPlus();
+			autoMocker.registerJasmineMockFormatter();
+		});
+
+		it("should print mocks with describeMock in failure messages", () => {
+			const repository = autoMocker.mockClass(Repository, {ignoreAllProperties: true});
+			const printed: string[] = [];
+			jasmine.addMatchers({
+				toBePrinted: (matchersUtil) => ({
+					compare: (actual: unknown) => {
+						printed.push(matchersUtil.pp(actual));
+						return {pass: true};
+					}
+				})
+			});
+
+			expect(repository).toBePrinted();
+			expect({id: 1}).toBePrinted();
+
+			expect(printed).toEqual([autoMocker.describeMock(repository), "Object({ id: 1 })"]);
+		});
+	});
+});
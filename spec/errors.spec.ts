@@ -0,0 +1,197 @@
+import { NEVER } from "rxjs";
+import { AutoMocker } from "../src/autoMocker";
+import {
+	AccessorNotFoundError,
+	AmbiguousDependencyError,
+	AutoMockerError,
+	BuiltInSpyAdapter,
+	ConstructedInstanceNotFoundError,
+	DependencyNotFoundError,
+	InvalidDependencyError,
+	MemberNotSpiableError,
+	MethodNotFoundError,
+	NestedMockNotFoundError,
+	NotAMockedConstructorError,
+	NotASpyError,
+	ObservableDidNotEmitError,
+	readObservableSynchronously,
+	times,
+	UnconfiguredStrictSpyError,
+	UnmatchedArgumentsError,
+	UnmatchedArgumentsFallback,
+	VerificationError
+} from "../src";
+import { Repository } from "./helpers/fixtures";
+import { describeEachSpyAdapter } from "./helpers/spy-adapters";
+
+class RepositoryConsumer {
+	constructor(public readonly primary: Repository, public readonly secondary: Repository) {}
+}
+
+function catchError(action: () => void): any {
+	try {
+		action();
+	} catch (e) {
+		return e;
+	}
+	fail("Expected the action to throw");
+}
+
+describe("errors", () => {
+	describeEachSpyAdapter((createSpyAdapter) => {
+		let autoMocker: AutoMocker;
+
+		beforeEach(() => {
+			autoMocker = new AutoMocker({spyAdapter: createSpyAdapter()});
+		});
+
+		it("should report the caller and the value that is not a spy", () => {
+			function load(): void {
+				// intentionally empty
+			}
+
+			const error = catchError(() => autoMocker.withReturnValue(load, undefined));
+
+			expect(error).toBeInstanceOf(NotASpyError);
+			expect(error).toBeInstanceOf(AutoMockerError);
+			expect(error.code).toBe("NOT_A_SPY");
+			expect(error.caller).toBe("withReturnValue");
+			expect(error.spyName).toBe("[Function load]");
+			expect(error.message).toBe("withReturnValue: Provided spy [Function load] is not an actual spy.");
+		});
+
+		it("should prefer the provided spy name", () => {
+			const error = catchError(() => autoMocker.withCallThrough(() => undefined, "repository.load"));
+
+			expect(error.message).toBe("withCallThrough: Provided spy repository.load is not an actual spy.");
+		});
+
+		it("should report a missing accessor", () => {
+			const repository = autoMocker.mockClass(Repository);
+
+			const error = catchError(() => autoMocker.withCallAccessorFake(repository, "name", "set", () => undefined));
+
+			expect(error).toBeInstanceOf(AccessorNotFoundError);
+			expect(error.code).toBe("ACCESSOR_NOT_FOUND");
+			expect(error.message).toBe("withCallAccessorFake: Repository.name does not have a set accessor.");
+		});
+
+		it("should name the spies of real objects mocked with mock", () => {
+			const config = { reload: (): void => undefined };
+			autoMocker.mock("config", config);
+			autoMocker.withUnmatchedArgumentsFallback(config.reload, UnmatchedArgumentsFallback.throwError());
+
+			const error = catchError(() => autoMocker.verify(config.reload, times(1)));
+			const unmatched = catchError(() => config.reload());
+
+			expect(error).toBeInstanceOf(VerificationError);
+			expect(error.code).toBe("VERIFICATION_FAILED");
+			expect(error.message).toMatch(/^Expected config\.reload to be called exactly 1 time/);
+			expect(unmatched).toBeInstanceOf(UnmatchedArgumentsError);
+			expect(unmatched.spyName).toBe("config.reload");
+		});
+
+		it("should name the spies of partial mocks", () => {
+			const repository = autoMocker.partialMock(new Repository());
+
+			expect(() => autoMocker.verify(repository.load, times(1))).toThrowError(/^Expected Repository\.load to be/);
+		});
+
+		it("should throw a structured error from strict spies", () => {
+			const repository = new AutoMocker({strict: true}).mockClass(Repository);
+
+			const error = catchError(() => repository.load(1));
+
+			expect(error).toBeInstanceOf(UnconfiguredStrictSpyError);
+			expect(error.code).toBe("UNCONFIGURED_STRICT_SPY");
+			expect(error.args).toEqual([1]);
+		});
+
+		it("should report the seed of the AutoMocker in verification and strict spy errors", () => {
+			const seededMocker = new AutoMocker({strict: true, seed: 42});
+			const repository = seededMocker.mockClass(Repository);
+
+			const strict = catchError(() => repository.load(1));
+			const verification = catchError(() => seededMocker.verify(repository.load, times(2)));
+			const order = catchError(() => seededMocker.verifyInOrder({spy: repository.load, args: [2]}));
+
+			[strict, verification, order].forEach((error) => {
+				expect(error.seed).toBe(42);
+				expect(error.message).toMatch(/\n\nSeed of the mocked values: 42$/);
+			});
+		});
+
+		it("should throw structured errors for nested mocks and mocked constructors", () => {
+			const repository = autoMocker.mockClass(Repository);
+			const RepositoryStandIn = autoMocker.mockConstructor(Repository);
+
+			const nested = catchError(() => autoMocker.getNestedMock(repository, "isReady"));
+			const notMocked = catchError(() => autoMocker.getConstructedInstances(Repository));
+			const notConstructed = catchError(() => autoMocker.getConstructedInstance(RepositoryStandIn));
+
+			expect(nested).toBeInstanceOf(NestedMockNotFoundError);
+			expect(nested.code).toBe("NESTED_MOCK_NOT_FOUND");
+			expect(nested.memberName).toBe("isReady");
+			expect(notMocked).toBeInstanceOf(NotAMockedConstructorError);
+			expect(notMocked.code).toBe("NOT_A_MOCKED_CONSTRUCTOR");
+			expect(notMocked.caller).toBe("getConstructedInstances");
+			expect(notConstructed).toBeInstanceOf(ConstructedInstanceNotFoundError);
+			expect(notConstructed.code).toBe("CONSTRUCTED_INSTANCE_NOT_FOUND");
+			expect(notConstructed.instanceCount).toBe(0);
+		});
+
+		it("should throw a structured error for members of partial mocks that cannot be spied on", () => {
+			const error = catchError(() => autoMocker.partialMock(new Repository(), { stub: ["name"] }));
+
+			expect(error).toBeInstanceOf(MemberNotSpiableError);
+			expect(error.code).toBe("MEMBER_NOT_SPIABLE");
+			expect(error.memberName).toBe("Repository.name");
+		});
+
+		it("should throw structured errors for the dependencies of createSut", () => {
+			const { getMock } = autoMocker.createSut(RepositoryConsumer, [Repository, Repository]);
+
+			const invalid = catchError(() => autoMocker.createSut(RepositoryConsumer, [{ token: "repository" }]));
+			const notFound = catchError(() => getMock("logger"));
+			const ambiguous = catchError(() => getMock(Repository));
+
+			expect(invalid).toBeInstanceOf(InvalidDependencyError);
+			expect(invalid.code).toBe("INVALID_DEPENDENCY");
+			expect(invalid.index).toBe(0);
+			expect(notFound).toBeInstanceOf(DependencyNotFoundError);
+			expect(notFound.code).toBe("DEPENDENCY_NOT_FOUND");
+			expect(ambiguous).toBeInstanceOf(AmbiguousDependencyError);
+			expect(ambiguous.code).toBe("AMBIGUOUS_DEPENDENCY");
+			expect(ambiguous.indexes).toEqual([0, 1]);
+		});
+	});
+
+	it("should describe Jasmine asymmetric matchers in messages", () => {
+		const error = new UnmatchedArgumentsError(
+			"repository.load",
+			[{ id: 2 }],
+			[[jasmine.objectContaining({ id: 1 })], [jasmine.arrayContaining([1])]]
+		);
+
+		expect(error.message).toBe(
+			"repository.load was called with ({\"id\":2}), which matches none of the registered arguments:"
+			+ "\n  (<jasmine.objectContaining({\"id\":1})>)"
+			+ "\n  (<jasmine.arrayContaining([1])>)"
+		);
+	});
+
+	it("should throw a structured error when an observable does not emit", () => {
+		const error = catchError(() => readObservableSynchronously(NEVER));
+
+		expect(error).toBeInstanceOf(ObservableDidNotEmitError);
+		expect(error.code).toBe("OBSERVABLE_DID_NOT_EMIT");
+		expect(error.notification).toBe("value");
+	});
+
+	it("should throw a structured error when the built-in adapter spies on a missing method", () => {
+		const error = catchError(() => new BuiltInSpyAdapter().spyOnMethod({ value: 1 }, "value"));
+
+		expect(error).toBeInstanceOf(MethodNotFoundError);
+		expect(error.message).toBe("spyOnMethod: value is not a method and cannot be spied on.");
+	});
+});
@@ -0,0 +1,186 @@
+import { Observable } from "rxjs";
+import { AutoMocker } from "../src/autoMocker";
+import {
+	association,
+	AutoMockerPlus,
+	defineFactory,
+	generated,
+	readObservableSynchronously,
+	sequence,
+	TraitNotFoundError,
+	ValueGeneratorRegistry
+} from "../src";
+
+interface IAddress {
+	street: string;
+	city: string;
+}
+
+interface IUser {
+	id: number;
+	userId: string;
+	name: string;
+	role: "member" | "admin";
+	archived: boolean;
+	tags: string[];
+	address: IAddress;
+	settings: { theme: string; notifications: { email: boolean; push: boolean } };
+}
+
+class UserService {
+	public getUser(): Observable<IUser> {
+		return undefined;
+	}
+
+	public loadUser(): Promise<IUser> {
+		return undefined;
+	}
+
+	public currentUser(): IUser {
+		return undefined;
+	}
+}
+
+describe("factories", () => {
+	const addressFactory = defineFactory<IAddress>({ street: sequence((n) => `${n} Main St`), city: "Springfield" });
+	const createUserFactory = () => defineFactory<IUser>({
+		id: sequence((n) => n),
+		userId: generated(""),
+		name: "Ada",
+		role: "member",
+		archived: false,
+		tags: [],
+		address: association(addressFactory),
+		settings: { theme: "light", notifications: { email: true, push: false } }
+	}, { name: "user", seed: 7 })
+		.trait("admin", { role: "admin" })
+		.trait("archived", { archived: true, tags: ["archived"] });
+
+	beforeEach(() => {
+		addressFactory.resetSequences();
+	});
+
+	describe("defineFactory", () => {
+		it("should build objects from the defaults", () => {
+			const user = createUserFactory().build();
+
+			expect(user).toEqual(jasmine.objectContaining({ id: 1, name: "Ada", role: "member", archived: false, tags: [] }));
+			expect(user.address).toEqual({ street: "1 Main St", city: "Springfield" });
+		});
+
+		it("should advance sequences for each object", () => {
+			const factory = createUserFactory();
+
+			expect(factory.buildList(3).map((user) => user.id)).toEqual([1, 2, 3]);
+			factory.resetSequences();
+			expect(factory.build().id).toBe(1);
+		});
+
+		it("should apply traits in order and then the deep partial overrides", () => {
+			const user = createUserFactory().build(
+				{ name: "Grace", settings: { notifications: { push: true } } },
+				"admin",
+				"archived"
+			);
+
+			expect(user.name).toBe("Grace");
+			expect(user.role).toBe("admin");
+			expect(user.archived).toBeTrue();
+			expect(user.tags).toEqual(["archived"]);
+			expect(user.settings).toEqual({ theme: "light", notifications: { email: true, push: true } });
+		});
+
+		it("should merge the overrides of an association into the associated object", () => {
+			const user = createUserFactory().build({ address: { city: "Oslo" } });
+
+			expect(user.address).toEqual({ street: "1 Main St", city: "Oslo" });
+		});
+
+		it("should not share dates and class instances between builds", () => {
+			class Tag {
+				constructor(public label: string) {}
+			}
+			const factory = defineFactory<{ createdAt: Date; tag: Tag }>({ createdAt: new Date(2020, 0, 1), tag: new Tag("new") });
+
+			const first = factory.build();
+			const second = factory.build();
+			first.createdAt.setFullYear(2000);
+			first.tag.label = "changed";
+
+			expect(second.createdAt).toEqual(new Date(2020, 0, 1));
+			expect(second.tag).toBeInstanceOf(Tag);
+			expect(second.tag.label).toBe("new");
+		});
+
+		it("should not share nested objects between builds", () => {
+			const factory = createUserFactory();
+			const first = factory.build();
+			first.settings.theme = "dark";
+
+			expect(factory.build().settings.theme).toBe("light");
+		});
+
+		it("should generate values with the seeded value generators", () => {
+			const first = createUserFactory().build();
+			const second = createUserFactory().build();
+
+			expect(first.userId).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4/);
+			expect(first.userId).toEqual(second.userId);
+		});
+
+		it("should throw when a trait is not defined", () => {
+			expect(() => createUserFactory().build({}, "banned")).toThrowError(
+				TraitNotFoundError,
+				'Factory user does not define a trait named "banned".'
+			);
+		});
+	});
+
+	describe("AutoMocker.defineFactory", () => {
+		it("should use the seed and the value generators of the AutoMocker", () => {
+			const autoMocker = new AutoMocker({
+				seed: 3,
+				valueGenerators: new ValueGeneratorRegistry().forType("string", () => "generated")
+			});
+
+			const factory = autoMocker.defineFactory<IAddress>({ street: generated(""), city: "Springfield" });
+
+			expect(factory.seed).toBe(3);
+			expect(factory.build().street).toBe("generated");
+		});
+	});
+
+	describe("withReturnBuilt", () => {
+		let autoMocker: AutoMockerPlus;
+		let userService: UserService;
+
+		beforeEach(() => {
+			autoMocker = new AutoMockerPlus();
+			userService = autoMocker.mockClass(UserService);
+		});
+
+		it("should return the built object", () => {
+			const user = autoMocker.withReturnBuilt(userService.currentUser, createUserFactory(), { name: "Linus" });
+
+			expect(user.name).toBe("Linus");
+			expect(userService.currentUser()).toBe(user);
+		});
+
+		it("should emit the built object", () => {
+			const user = autoMocker.withReturnBuilt(userService.getUser, createUserFactory(), {}, "observable");
+
+			expect(readObservableSynchronously(userService.getUser())).toBe(user);
+		});
+
+		it("should resolve the built object", async () => {
+			const user = autoMocker.withReturnBuilt(userService.loadUser, createUserFactory(), { role: "admin" }, "promise");
+
+			expect(await userService.loadUser()).toBe(user);
+			expect(user.role).toBe("admin");
+		});
+
+		it("should throw an error when the spy is not a spy", () => {
+			expect(() => autoMocker.withReturnBuilt(() => undefined, createUserFactory())).toThrowError(/not an actual spy/);
+		});
+	});
+});
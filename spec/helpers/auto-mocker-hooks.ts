@@ -0,0 +1,3 @@
+import { registerAutoMockerHooks } from "../../src";
+
+registerAutoMockerHooks();
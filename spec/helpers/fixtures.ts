@@ -0,0 +1,34 @@
+import { Observable, of } from "rxjs";
+
+export class Repository {
+	public name = "repository";
+	private ready = true;
+
+	public get isReady(): boolean {
+		return this.ready;
+	}
+
+	public set isReady(value: boolean) {
+		this.ready = value;
+	}
+
+	public load(id: number): string {
+		return `${id}`;
+	}
+
+	public load$(id: number): Observable<string> {
+		return of(`${id}`);
+	}
+
+	public save(value: string): void {
+		console.log(value);
+	}
+}
+
+export class Notifier {
+	public changes$: Observable<string> = of("change");
+
+	public send(message: string): void {
+		console.log(message);
+	}
+}
@@ -0,0 +1,30 @@
+import { ModuleMocker } from "jest-mock";
+import { BuiltInSpyAdapter, IJestLike, ISpyAdapter, JestSpyAdapter } from "../../src/spy-adapters";
+
+/**
+ * The spy adapters the AutoMocker specs run against. The default adapter is left undefined so the AutoMocker detects it.
+ */
+export const spyAdapterMatrix: readonly [string, () => ISpyAdapter | undefined][] = [
+	["default adapter", () => undefined],
+	["built-in adapter", () => new BuiltInSpyAdapter()],
+	["Jest adapter", () => new JestSpyAdapter(new ModuleMocker(globalThis) as unknown as IJestLike)]
+];
+
+/**
+ * Defines the given specs once for every spy adapter of ``` spyAdapterMatrix ```, each in a suite named after the adapter.
+ *
+ * @example
+ * describeEachSpyAdapter((createSpyAdapter) => {
+ *   beforeEach(() => {
+ *     autoMocker = new AutoMocker({spyAdapter: createSpyAdapter()});
+ *   });
+ * });
+ *
+ * @param {Function} specDefinitions - Defines the specs, given a factory of the spy adapter to create AutoMockers with.
+ * @returns {void}
+ */
+export function describeEachSpyAdapter(specDefinitions: (createSpyAdapter: () => ISpyAdapter | undefined) => void): void {
+	spyAdapterMatrix.forEach(([description, createSpyAdapter]) => {
+		describe(description, () => specDefinitions(createSpyAdapter));
+	});
+}
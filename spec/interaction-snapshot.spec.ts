@@ -0,0 +1,151 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { AutoMocker } from "../src/autoMocker";
+import { SnapshotMissingError } from "../src";
+import { diffLines } from "../src/interaction-snapshot";
+import { Notifier, Repository } from "./helpers/fixtures";
+import { describeEachSpyAdapter } from "./helpers/spy-adapters";
+
+describe("AutoMocker.expectInteractionsToMatchSnapshot", () => {
+	describeEachSpyAdapter((createSpyAdapter) => {
+		let autoMocker: AutoMocker;
+		let repository: Repository;
+		let notifier: Notifier;
+		let snapshotDirectory: string;
+
+		beforeEach(() => {
+			autoMocker = new AutoMocker({spyAdapter: createSpyAdapter()});
+			repository = autoMocker.mockClass(Repository);
+			notifier = autoMocker.mockClass(Notifier);
+			autoMocker.withReturnValue(repository.load, "loaded");
+			autoMocker.withReturnGetterValue(repository, "isReady", true);
+			snapshotDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "interaction-snapshot-"));
+		});
+
+		afterEach(() => {
+			fs.rmSync(snapshotDirectory, { recursive: true, force: true });
+		});
+
+		function readSnapshot(name: string): string {
+			return fs.readFileSync(path.join(snapshotDirectory, "__snapshots__", `${name}.snap`), "utf-8");
+		}
+
+		it("should write a missing snapshot with every call in the order the calls were made", () => {
+			repository.load(1);
+			void repository.isReady;
+			repository.save("one");
+			repository.load(2);
+
+			autoMocker.expectInteractionsToMatchSnapshot(repository, "repository", { snapshotDirectory, ci: false });
+
+			expect(readSnapshot("repository")).toBe(
+				'Repository.load #0: (1) => "loaded"\n'
+				+ "Repository.isReady (get) #0: () => true\n"
+				+ 'Repository.save #0: ("one")\n'
+				+ 'Repository.load #1: (2) => "loaded"\n'
+			);
+		});
+
+		it("should pass when the calls match the snapshot", () => {
+			repository.load(1);
+			autoMocker.expectInteractionsToMatchSnapshot(repository, "repository", { snapshotDirectory, ci: false });
+			autoMocker.resetAll();
+			autoMocker.withReturnValue(repository.load, "loaded");
+
+			repository.load(1);
+
+			expect(() => autoMocker.expectInteractionsToMatchSnapshot(repository, "repository", { snapshotDirectory, ci: false }))
+				.not.toThrow();
+		});
+
+		it("should fail with a line diff when the calls differ from the snapshot", () => {
+			repository.load(1);
+			repository.save("one");
+			autoMocker.expectInteractionsToMatchSnapshot(repository, "repository", { snapshotDirectory, ci: false });
+			autoMocker.resetAll();
+			autoMocker.withReturnValue(repository.load, "loaded");
+
+			repository.load(1);
+			repository.save("two");
+
+			expect(() => autoMocker.expectInteractionsToMatchSnapshot(repository, "repository", { snapshotDirectory, ci: false }))
+				.toThrowError(
+					`Recorded interactions do not match snapshot "repository" (${path.join(snapshotDirectory, "__snapshots__", "repository.snap")}).`
+					+ "\n- snapshot\n+ recorded\n"
+					+ '\n  Repository.load #0: (1) => "loaded"'
+					+ '\n- Repository.save #0: ("one")'
+					+ '\n+ Repository.save #0: ("two")'
+					+ "\n\nSet UPDATE_SNAPSHOTS=1 to rewrite the snapshot."
+					+ `\n\nSeed of the mocked values: ${autoMocker.seed}`
+				);
+		});
+
+		it("should rewrite the snapshot in update mode", () => {
+			repository.load(1);
+			autoMocker.expectInteractionsToMatchSnapshot(repository, "repository", { snapshotDirectory, ci: false });
+			repository.save("one");
+
+			autoMocker.expectInteractionsToMatchSnapshot(repository, "repository", { snapshotDirectory, update: true });
+
+			expect(readSnapshot("repository")).toBe('Repository.load #0: (1) => "loaded"\nRepository.save #0: ("one")\n');
+		});
+
+		it("should interleave the calls of a list of spies and record a snapshot without calls", () => {
+			notifier.send("a");
+			repository.save("b");
+			notifier.send("c");
+
+			autoMocker.expectInteractionsToMatchSnapshot([repository.save, notifier.send], "spies", { snapshotDirectory, ci: false });
+			autoMocker.expectInteractionsToMatchSnapshot([repository.load], "no calls", { snapshotDirectory, ci: false });
+
+			expect(readSnapshot("spies")).toBe('Notifier.send #0: ("a")\nRepository.save #0: ("b")\nNotifier.send #1: ("c")\n');
+			expect(readSnapshot("no-calls")).toBe("(no calls)\n");
+		});
+
+		it("should fail on a missing snapshot on a CI server", () => {
+			const snapshotPath = path.join(snapshotDirectory, "__snapshots__", "repository.snap");
+
+			expect(() => autoMocker.expectInteractionsToMatchSnapshot(repository, "repository", { snapshotDirectory, ci: true }))
+				.toThrowError(
+					SnapshotMissingError,
+					`Snapshot "repository" (${snapshotPath}) does not exist. Record it locally and commit it, or set UPDATE_SNAPSHOTS=1 to write it.`
+					+ `\n\nSeed of the mocked values: ${autoMocker.seed}`
+				);
+			expect(fs.existsSync(snapshotPath)).toBeFalse();
+
+			autoMocker.expectInteractionsToMatchSnapshot(repository, "repository", { snapshotDirectory, ci: true, update: true });
+			expect(fs.existsSync(snapshotPath)).toBeTrue();
+		});
+
+		it("should throw an error when a list entry is not a spy", () => {
+			expect(() => autoMocker.expectInteractionsToMatchSnapshot([() => undefined], "spies", { snapshotDirectory, ci: false }))
+				.toThrowError(/not an actual spy/);
+		});
+	});
+
+	it("should store snapshots next to the source of the calling spec by default", () => {
+		const autoMocker = new AutoMocker();
+		const notifier = autoMocker.mockClass(Notifier);
+		const sourceDirectory = path.resolve(__dirname, "..", "..", "spec");
+		const snapshotPath = path.join(sourceDirectory, "__snapshots__", "default-directory.snap");
+		notifier.send("sent");
+
+		try {
+			autoMocker.expectInteractionsToMatchSnapshot(notifier, "default-directory", { ci: false });
+
+			expect(fs.readFileSync(snapshotPath, "utf-8")).toBe('Notifier.send #0: ("sent")\n');
+		} finally {
+			fs.rmSync(snapshotPath, { force: true });
+			if (fs.existsSync(path.dirname(snapshotPath)) && !fs.readdirSync(path.dirname(snapshotPath)).length) {
+				fs.rmdirSync(path.dirname(snapshotPath));
+			}
+		}
+	});
+
+	describe("diffLines", () => {
+		it("should mark removed, added and unchanged lines", () => {
+			expect(diffLines("a\nb\nc\n", "a\nc\nd\n")).toBe("  a\n- b\n  c\n+ d");
+		});
+	});
+});
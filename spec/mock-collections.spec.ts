@@ -0,0 +1,110 @@
+import { AutoMocker } from "../src/autoMocker";
+import { describeEachSpyAdapter } from "./helpers/spy-adapters";
+
+class Account {
+	public balance = 10;
+
+	constructor(public owner: string) {}
+
+	public deposit(amount: number): number {
+		this.balance += amount;
+		return this.balance;
+	}
+}
+
+describe("AutoMocker.mock collections and class instances", () => {
+	describeEachSpyAdapter((createSpyAdapter) => {
+		let autoMocker: AutoMocker;
+
+		beforeEach(() => {
+			autoMocker = new AutoMocker({seed: 7, spyAdapter: createSpyAdapter()});
+			spyOn(console, "error");
+		});
+
+		it("should mock the values of maps and keep their keys", () => {
+			const keyObject = { id: 1 };
+			const config = {
+				hosts: new Map<any, any>([["primary", "localhost"], [keyObject, { port: 80 }]])
+			};
+			const original = config.hosts;
+
+			autoMocker.mock("config", config, { maxDepth: 2 });
+
+			expect(config.hosts).toBeInstanceOf(Map);
+			expect(config.hosts).not.toBe(original);
+			expect(Array.from(config.hosts.keys())).toEqual(["primary", keyObject]);
+			expect(config.hosts.get("primary")).toMatch(/^config\.hosts\.primary\d+$/);
+			expect(config.hosts.get(keyObject).port).not.toBe(80);
+			expect(console.error).not.toHaveBeenCalled();
+		});
+
+		it("should mock the values of sets", () => {
+			const config = { tags: new Set(["a"]), handlers: new Set([(): void => undefined]) };
+
+			autoMocker.mock("config", config);
+
+			expect(Array.from(config.tags)).toEqual([jasmine.stringMatching(/^config\.tags\.0\d+$/)]);
+			const [handler] = Array.from(config.handlers);
+			handler();
+			expect(autoMocker.getCallCount(handler)).toBe(1);
+			expect(console.error).not.toHaveBeenCalled();
+		});
+
+		it("should keep collections beyond the maximum depth", () => {
+			const config = { nested: { hosts: new Map([["primary", "localhost"]]) } };
+
+			autoMocker.mock("config", config, { maxDepth: 1 });
+
+			expect(config.nested.hosts.get("primary")).toBe("localhost");
+		});
+
+		it("should regenerate typed arrays", () => {
+			const buffer = new Uint8Array([1, 2, 3]);
+			const config = { buffer, samples: new Float64Array(2) };
+
+			autoMocker.mock("config", config);
+
+			expect(config.buffer).toBeInstanceOf(Uint8Array);
+			expect(config.buffer).not.toBe(buffer);
+			expect(config.buffer.length).toBe(3);
+			expect(config.samples).toBeInstanceOf(Float64Array);
+			expect(Array.from(config.samples).every((sample) => Number.isInteger(sample))).toBeTrue();
+		});
+
+		it("should mock class instances in place and keep their prototype", () => {
+			const account = new Account("ada");
+			const state = { account };
+
+			autoMocker.mock("state", state, { maxDepth: 2 });
+
+			expect(state.account).toBe(account);
+			expect(account).toBeInstanceOf(Account);
+			expect(account.owner).toMatch(/^state\.account\.owner\d+$/);
+			expect(account.deposit(5)).toBeUndefined();
+			expect(autoMocker.getCallCount(account.deposit)).toBe(1);
+		});
+
+		it("should keep instances of other built-in types", () => {
+			const pattern = /a/g;
+			const pending = Promise.resolve(1);
+			const config = { pattern, pending };
+
+			autoMocker.mock("config", config);
+
+			expect(config.pattern).toBe(pattern);
+			expect(config.pattern.lastIndex).toBe(0);
+			expect(config.pending).toBe(pending);
+			expect(console.error).not.toHaveBeenCalled();
+		});
+
+		it("should restore the original collections", () => {
+			const hosts = new Map([["primary", "localhost"]]);
+			const config = { hosts };
+
+			autoMocker.mock("config", config).restore();
+
+			expect(config.hosts).toBe(hosts);
+			expect(hosts.get("primary")).toBe("localhost");
+		});
+	});
+});
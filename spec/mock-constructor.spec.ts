@@ -0,0 +1,92 @@
+import { AutoMocker } from "../src/autoMocker";
+import { Constructor } from "@types-local";
+import { describeEachSpyAdapter } from "./helpers/spy-adapters";
+
+class Connection {
+	constructor(public readonly url: string, public readonly retries: number) {}
+
+	public open(): boolean {
+		return true;
+	}
+
+	public get isOpen(): boolean {
+		return false;
+	}
+}
+
+class ConnectionPool {
+	public readonly connections: Connection[] = [];
+
+	constructor(private readonly connectionType: Constructor<Connection>) {}
+
+	public connect(url: string): boolean {
+		const connection = new this.connectionType(url, 3);
+		this.connections.push(connection);
+		return connection.open();
+	}
+}
+
+describe("AutoMocker.mockConstructor", () => {
+	describeEachSpyAdapter((createSpyAdapter) => {
+		let autoMocker: AutoMocker;
+		let ConnectionStandIn: Constructor<Connection>;
+		let pool: ConnectionPool;
+
+		beforeEach(() => {
+			autoMocker = new AutoMocker({spyAdapter: createSpyAdapter()});
+			ConnectionStandIn = autoMocker.mockConstructor(Connection);
+			pool = new ConnectionPool(ConnectionStandIn);
+		});
+
+		it("should create a fresh mock for every instantiation", () => {
+			pool.connect("first");
+			pool.connect("second");
+
+			const instances = autoMocker.getConstructedInstances(ConnectionStandIn);
+			expect(instances.length).toBe(2);
+			expect(instances[0]).not.toBe(instances[1]);
+			expect(pool.connections).toEqual(instances);
+			expect(autoMocker.getCallCount(autoMocker.getConstructedInstance(ConnectionStandIn, 1).open)).toBe(1);
+		});
+
+		it("should record the constructor arguments", () => {
+			pool.connect("first");
+
+			expect(autoMocker.getConstructorArgs(ConnectionStandIn)).toEqual(["first", 3]);
+			expect(autoMocker.getConstructorArgs(ConnectionStandIn, 1)).toEqual([]);
+		});
+
+		it("should return the configured instances first", () => {
+			const configured = autoMocker.mockClass(Connection);
+			autoMocker.withReturnValue(configured.open, true);
+			autoMocker.withConstructedInstances(ConnectionStandIn, [configured]);
+
+			expect(pool.connect("first")).toBeTrue();
+			expect(pool.connect("second")).toBeUndefined();
+			expect(autoMocker.getConstructedInstance(ConnectionStandIn)).toBe(configured);
+		});
+
+		it("should pass the options to the created mocks", () => {
+			ConnectionStandIn = autoMocker.mockConstructor(Connection, {strict: true});
+
+			expect(() => new ConnectionPool(ConnectionStandIn).connect("url")).toThrowError(
+				/Strict mock Connection\.open/
+			);
+		});
+
+		it("should keep creating instances after resetAllBehaviors", () => {
+			autoMocker.resetAllBehaviors();
+			pool.connect("url");
+			expect(autoMocker.getConstructedInstance(ConnectionStandIn).open).toBeDefined();
+		});
+
+		it("should throw when there is no such instance or stand-in", () => {
+			expect(() => autoMocker.getConstructedInstance(ConnectionStandIn, 0)).toThrowError(
+				"getConstructedInstance: Connection was instantiated 0 time(s), so there is no instance at index 0."
+			);
+			expect(() => autoMocker.getConstructedInstances(Connection)).toThrowError(
+				"getConstructedInstances: Provided constructor Connection was not created by mockConstructor."
+			);
+		});
+	});
+});
@@ -0,0 +1,92 @@
+import { AutoMockerPlus, defaultAutoMockerInstance, readObservableSynchronously } from "../src";
+import { Notifier, Repository } from "./helpers/fixtures";
+import { describeEachSpyAdapter } from "./helpers/spy-adapters";
+
+describe("AutoMocker registry", () => {
+	describeEachSpyAdapter((createSpyAdapter) => {
+		let autoMocker: AutoMockerPlus;
+		let repository: Repository;
+		let notifier: Notifier;
+
+		beforeEach(() => {
+			autoMocker = new AutoMockerPlus({spyAdapter: createSpyAdapter()});
+			repository = autoMocker.mockClass(Repository);
+			notifier = autoMocker.mockInterface<Notifier>("Notifier", {methods: ["send"], observables: ["changes$"]});
+		});
+
+		it("should enumerate the mocks and their spies", () => {
+			const config = {name: "config", reload: () => true};
+			autoMocker.mock("config", config);
+
+			expect(autoMocker.getRegisteredMocks().map((registeredMock) => registeredMock.name))
+				.toEqual(["Repository", "Notifier", "config"]);
+			expect(autoMocker.getRegisteredMocks("Repository")[0].mock).toBe(repository);
+			expect(autoMocker.getRegisteredSpies(notifier)).toEqual([notifier.send]);
+			expect(autoMocker.getRegisteredSpies(config)).toEqual([config.reload]);
+			expect(autoMocker.getRegisteredSpies(repository).length).toBe(5);
+			expect(autoMocker.getRegisteredSpies({})).toEqual([]);
+		});
+
+		it("should clear the calls of every spy with resetAll", () => {
+			autoMocker.withReturnValue(repository.load, "loaded");
+			repository.load(1);
+			notifier.send("sent");
+
+			autoMocker.resetAll();
+
+			expect(autoMocker.getCallCount(repository.load)).toBe(0);
+			expect(autoMocker.getCallCount(notifier.send)).toBe(0);
+			expect(repository.load(1)).toBe("loaded");
+		});
+
+		it("should clear the calls and behaviors of every spy with resetAllBehaviors", () => {
+			autoMocker.withReturnValue(repository.load, "loaded");
+			autoMocker.withReturnForArguments(repository.load, [2], "two");
+			autoMocker.withReturnGetterValue(repository, "isReady", true);
+			const subject = autoMocker.withReturnSubjectForObservableProperty(notifier, "changes$", "change");
+			repository.load(1);
+
+			autoMocker.resetAllBehaviors();
+
+			expect(autoMocker.getCallCount(repository.load)).toBe(0);
+			expect(repository.load(1)).toBeUndefined();
+			expect(repository.load(2)).toBeUndefined();
+			expect(repository.isReady).toBeUndefined();
+			subject.next("ignored");
+			expect(() => readObservableSynchronously(notifier.changes$)).toThrowError();
+		});
+
+		it("should forget every mock with clearRegistry", () => {
+			autoMocker.withReturnValue(repository.load, "loaded");
+
+			autoMocker.clearRegistry();
+			autoMocker.resetAllBehaviors();
+
+			expect(autoMocker.getRegisteredMocks()).toEqual([]);
+			expect(autoMocker.getRegisteredSpies(repository)).toEqual([]);
+			expect(repository.load(1)).toBe("loaded");
+		});
+
+		it("should make strict spies throw again after resetAllBehaviors", () => {
+			const strictRepository = autoMocker.mockClass(Repository, {strict: true});
+			autoMocker.withReturnValue(strictRepository.load, "loaded");
+			expect(strictRepository.load(1)).toBe("loaded");
+
+			autoMocker.resetAllBehaviors();
+
+			expect(() => strictRepository.load(1)).toThrowError(/Strict mock Repository\.load/);
+		});
+	});
+
+	describe("defaultAutoMockerInstance", () => {
+		[1, 2].forEach((index) => {
+			it(`should start spec ${index} without the mocks of other specs`, () => {
+				expect(defaultAutoMockerInstance.getRegisteredMocks()).toEqual([]);
+
+				defaultAutoMockerInstance.mockClass(Repository);
+
+				expect(defaultAutoMockerInstance.getRegisteredMocks().length).toBe(1);
+			});
+		});
+	});
+});
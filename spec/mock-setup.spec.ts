@@ -0,0 +1,162 @@
+import { AutoMockerPlus, readObservableSynchronously } from "../src";
+import { AutoMocker } from "../src/autoMocker";
+import { Observable, of } from "rxjs";
+
+class MockSetupTest {
+	public name = "test";
+	public format = (value: string): string => value;
+
+	public load(id: number): string {
+		return `${id}`;
+	}
+
+	public save(value: string): void {
+		this.name = value;
+	}
+
+	public load$(): Observable<number> {
+		return of(1);
+	}
+
+	public fetch(): Promise<string> {
+		return Promise.resolve("fetched");
+	}
+
+	public get isReady(): boolean {
+		return true;
+	}
+
+	public set isReady(value: boolean) {
+		this.name = `${value}`;
+	}
+}
+
+describe("MockSetup", () => {
+	let autoMocker: AutoMocker;
+	let mock: MockSetupTest;
+
+	beforeEach(() => {
+		autoMocker = new AutoMocker();
+		mock = autoMocker.mockClass(MockSetupTest);
+	});
+
+	it("should configure several spies in one chain", () => {
+		const result = autoMocker.setup(mock)
+			.method("load").returns("loaded")
+			.property("isReady").returns(true)
+			.method("save").throws("failed")
+			.done();
+
+		expect(result).toBe(mock);
+		expect(mock.load(1)).toBe("loaded");
+		expect(mock.isReady).toBeTrue();
+		expect(() => mock.save("value")).toThrowError("failed");
+	});
+
+	it("should support the remaining method behaviors", () => {
+		autoMocker.setup(mock)
+			.method("load").returnsForArguments([1], "one")
+			.method("save").callsFake((value) => {
+				mock.name = value;
+			});
+
+		expect(mock.load(1)).toBe("one");
+		mock.save("saved");
+		expect(mock.name).toBe("saved");
+
+		autoMocker.setup(mock).method("load").returnsValues(["a", "b"]);
+		expect(mock.load(5)).toBe("a");
+		expect(mock.load(5)).toBe("b");
+
+		autoMocker.setup(mock).method("load").returnsMappedByFirstArg({2: "two"}, "other");
+		expect(mock.load(2)).toBe("two");
+		expect(mock.load(3)).toBe("other");
+
+		autoMocker.setup(mock).method("load").callsThrough();
+		expect(mock.load(5)).toBeUndefined();
+	});
+
+	it("should support the remaining property behaviors", () => {
+		let setValue: boolean;
+		autoMocker.setup(mock)
+			.property("isReady").returnsValues([true, false])
+			.property("isReady").callsFake((value: any) => {
+				setValue = value;
+			}, "set");
+
+		expect(mock.isReady).toBeTrue();
+		expect(mock.isReady).toBeFalse();
+		mock.isReady = true;
+		expect(setValue).toBeTrue();
+
+		autoMocker.setup(mock).property("isReady").throws("not ready");
+		expect(() => mock.isReady).toThrowError("not ready");
+
+		autoMocker.setup(mock).property("isReady").callsThrough();
+		expect(mock.isReady).toBeUndefined();
+	});
+
+	it("should infer the spy name in error messages", () => {
+		const notAMock = new MockSetupTest();
+		expect(() => autoMocker.setup(mock).method("format").returns("")).toThrowError(
+			"withReturnValue: Provided spy MockSetupTest.format is not an actual spy."
+		);
+		expect(() => autoMocker.setup(notAMock).method("load").returns("")).toThrowError(
+			"withReturnValue: Provided spy mock.load is not an actual spy."
+		);
+	});
+
+	it("should use the object name of mocked objects", () => {
+		const service = {
+			load: (): string => "real"
+		};
+		autoMocker.mock("service", service);
+		autoMocker.setup(service).method("load").returns("mocked");
+		expect(service.load()).toBe("mocked");
+	});
+});
+
+describe("MockSetupPlus", () => {
+	let autoMocker: AutoMockerPlus;
+	let mock: MockSetupTest;
+
+	beforeEach(() => {
+		autoMocker = new AutoMockerPlus();
+		mock = autoMocker.mockClass(MockSetupTest);
+	});
+
+	it("should support the observable and promise helpers", async () => {
+		autoMocker.setup(mock)
+			.method("load$").returnsObservable(5)
+			.method("fetch").returnsPromise("resolved");
+
+		expect(readObservableSynchronously(mock.load$())).toBe(5);
+		expect(await mock.fetch()).toBe("resolved");
+
+		autoMocker.setup(mock)
+			.method("load$").returnsObservables([1, 2])
+			.method("fetch").returnsRejectedPromise("rejected");
+
+		expect(readObservableSynchronously(mock.load$())).toBe(1);
+		expect(readObservableSynchronously(mock.load$())).toBe(2);
+		await expectAsync(mock.fetch()).toBeRejectedWith("rejected");
+	});
+
+	it("should support the remaining observable helpers", () => {
+		autoMocker.setup(mock).method("load$").returnsNonEmittingObservable();
+		expect(() => readObservableSynchronously(mock.load$())).toThrowError(/did not emit/);
+
+		autoMocker.setup(mock).method("load$").throwsObservable("failed");
+		expect(() => readObservableSynchronously(mock.load$())).toThrowError(/failed/);
+
+		autoMocker.setup(mock).method("load$").returnsMappedObservableByFirstArg({}, 7);
+		expect(readObservableSynchronously(mock.load$())).toBe(7);
+	});
+
+	it("should infer the spy name for the promise helpers", () => {
+		const notAMock = new MockSetupTest();
+		expect(() => autoMocker.setup(notAMock).method("fetch").returnsPromise("")).toThrowError(
+			"withReturnPromise: Provided spy mock.fetch is not an actual spy."
+		);
+	});
+});
@@ -0,0 +1,109 @@
+import { AutoMocker } from "../src/autoMocker";
+import { describeEachSpyAdapter } from "./helpers/spy-adapters";
+
+class BaseUtils {
+	private static _current = "base";
+
+	public static format(value: string): string {
+		return `formatted ${value}`;
+	}
+
+	public static get current(): string {
+		return BaseUtils._current;
+	}
+
+	public static set current(value: string) {
+		BaseUtils._current = value;
+	}
+}
+
+class DateUtils extends BaseUtils {
+	public static readonly zone = "UTC";
+	// Not defined at runtime, to mock a static method the class does not have
+	declare public static parse: (value: string) => Date;
+
+	public static now(): Date {
+		return new Date();
+	}
+
+	public static get isUtc(): boolean {
+		return true;
+	}
+}
+
+describe("AutoMocker.mockStatics", () => {
+	describeEachSpyAdapter((createSpyAdapter) => {
+		const originalNow = DateUtils.now;
+		const originalFormat = BaseUtils.format;
+		let autoMocker: AutoMocker;
+
+		beforeEach(() => {
+			autoMocker = new AutoMocker({spyAdapter: createSpyAdapter()});
+		});
+
+		// The specs leave restoring the static members to the hook of registerAutoMockerHooks
+		afterAll(() => {
+			expect(DateUtils.now).toBe(originalNow);
+			expect(DateUtils.format).toBe(originalFormat);
+			expect(DateUtils.isUtc).toBeTrue();
+			expect(DateUtils.current).toBe("base");
+			expect("parse" in DateUtils).toBeFalse();
+		});
+
+		it("should mock own and inherited static methods", () => {
+			const date = new Date(2020, 1, 1);
+			autoMocker.mockStatics(DateUtils);
+
+			autoMocker.withReturnValue(DateUtils.now, date);
+			autoMocker.withReturnValue(DateUtils.format, "mocked");
+
+			expect(DateUtils.now()).toBe(date);
+			expect(DateUtils.format("a")).toBe("mocked");
+			expect(autoMocker.getCallArgs(DateUtils.format)).toEqual(["a"]);
+			expect(BaseUtils.format).toBe(originalFormat);
+			expect(DateUtils.zone).toBe("UTC");
+		});
+
+		it("should mock static accessors", () => {
+			autoMocker.mockStatics(DateUtils);
+
+			autoMocker.withReturnGetterValue(DateUtils, "current", "mocked");
+			DateUtils.current = "changed";
+
+			expect(DateUtils.current).toBe("mocked");
+			expect(DateUtils.isUtc).toBeUndefined();
+			expect(BaseUtils.current).toBe("base");
+		});
+
+		it("should apply the options", () => {
+			autoMocker.mockStatics(DateUtils, {
+				additionalMethodsToMock: ["parse"],
+				ignoredProperties: ["isUtc"],
+				strict: true
+			});
+
+			expect(DateUtils.parse).toBeDefined();
+			expect(DateUtils.isUtc).toBeTrue();
+			expect(() => DateUtils.now()).toThrowError(
+				"Strict mock DateUtils.now was called with () but has not been configured."
+				+ `\n\nSeed of the mocked values: ${autoMocker.seed}`
+			);
+			expect(() => DateUtils.current).toThrowError(/Strict mock DateUtils\.current \(get\)/);
+		});
+
+		it("should not mock accessors when ignoring all properties", () => {
+			autoMocker.mockStatics(DateUtils, {ignoreAllProperties: true});
+			expect(DateUtils.isUtc).toBeTrue();
+		});
+
+		it("should restore the static members", () => {
+			autoMocker.mockStatics(DateUtils, {additionalMethodsToMock: ["parse"]}).restore();
+
+			expect(DateUtils.now).toBe(originalNow);
+			expect(DateUtils.format).toBe(originalFormat);
+			expect(DateUtils.isUtc).toBeTrue();
+			expect(DateUtils.current).toBe("base");
+			expect("parse" in DateUtils).toBeFalse();
+		});
+	});
+});
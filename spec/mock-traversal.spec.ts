@@ -0,0 +1,133 @@
+import { AutoMocker } from "../src/autoMocker";
+import { PropertyPathFilter } from "../src/property-path";
+import { UnconfiguredStrictSpyError } from "../src";
+import { describeEachSpyAdapter } from "./helpers/spy-adapters";
+
+describe("PropertyPathFilter", () => {
+	it("should include every path without include globs", () => {
+		const filter = new PropertyPathFilter();
+
+		expect(filter.isIncluded("config.http.timeout")).toBeTrue();
+		expect(filter.shouldTraverse("config.http")).toBeTrue();
+	});
+
+	it("should match single and multiple keys", () => {
+		const filter = new PropertyPathFilter(["config.http.*", "config.**.host"]);
+
+		expect(filter.isIncluded("config.http.timeout")).toBeTrue();
+		expect(filter.isIncluded("config.http.agent.keepAlive")).toBeTrue();
+		expect(filter.isIncluded("config.servers.0.host")).toBeTrue();
+		expect(filter.isIncluded("config.servers[1].host")).toBeTrue();
+		expect(filter.isIncluded("config.name")).toBeFalse();
+		expect(filter.isIncluded("config.http")).toBeFalse();
+		expect(filter.shouldTraverse("config.http")).toBeTrue();
+		expect(filter.shouldTraverse("config.name")).toBeTrue();
+	});
+
+	it("should let exclude globs take precedence", () => {
+		const filter = new PropertyPathFilter(["config.http.*"], ["config.http.agent"]);
+
+		expect(filter.isIncluded("config.http.agent")).toBeFalse();
+		expect(filter.isIncluded("config.http.agent.keepAlive")).toBeFalse();
+		expect(filter.shouldTraverse("config.http.agent")).toBeFalse();
+		expect(filter.shouldTraverse("config.logging")).toBeFalse();
+	});
+});
+
+describe("AutoMocker.mock traversal options", () => {
+	describeEachSpyAdapter((createSpyAdapter) => {
+		let autoMocker: AutoMocker;
+
+		beforeEach(() => {
+			autoMocker = new AutoMocker({seed: 7, spyAdapter: createSpyAdapter()});
+		});
+
+		it("should only mock included paths that are not excluded", () => {
+			const config = {
+				name: "app",
+				http: { timeout: 100, baseUrl: "http://localhost", agent: { keepAlive: 1 } },
+				logging: { level: "info" }
+			};
+
+			autoMocker.mock("config", config, { include: ["config.http.*"], exclude: ["config.http.agent"] });
+
+			expect(config.name).toBe("app");
+			expect(config.logging.level).toBe("info");
+			expect(config.http.timeout).not.toBe(100);
+			expect(config.http.baseUrl).toMatch(/^config\.http\.baseUrl/);
+			expect(config.http.agent.keepAlive).toBe(1);
+		});
+
+		it("should give sibling properties the same depth", () => {
+			const config = { first: { value: 1 }, second: { value: 2 }, third: { value: 3 } };
+
+			autoMocker.mock("config", config, { maxDepth: 1 });
+
+			expect(config.first.value).not.toBe(1);
+			expect(config.second.value).not.toBe(2);
+			expect(config.third.value).not.toBe(3);
+		});
+
+		it("should limit the depth of each branch", () => {
+			const config = { servers: [{ port: 80, tls: { port: 443 } }], nested: { deeper: { value: 1 } } };
+
+			autoMocker.mock("config", config, { maxDepth: 1 });
+
+			expect(config.servers[0].port).not.toBe(80);
+			expect(config.servers[0].tls.port).toBe(443);
+			expect(config.nested.deeper.value).toBe(1);
+		});
+
+		it("should mock self-referencing objects once", () => {
+			interface INode { name: string; parent?: INode; children: INode[] }
+			const root: INode = { name: "root", children: [] };
+			const child: INode = { name: "child", parent: root, children: [] };
+			root.children.push(child);
+
+			autoMocker.mock("root", root, { maxDepth: 10 });
+
+			expect(root.children[0].parent).toBe(root);
+			expect(root.name).toMatch(/^root\.name/);
+			expect(root.children[0].name).toMatch(/^root\.children\.0\.name/);
+		});
+
+		it("should call through to the real methods", () => {
+			const calculator = { double: (value: number): number => value * 2 };
+
+			autoMocker.mock("calculator", calculator, { methods: "callThrough" });
+
+			expect(calculator.double(2)).toBe(4);
+			expect(autoMocker.getCallCount(calculator.double)).toBe(1);
+		});
+
+		it("should create strict spies", () => {
+			const calculator = { double: (value: number): number => value * 2 };
+
+			autoMocker.mock("calculator", calculator, { methods: "strict" });
+
+			expect(() => calculator.double(2)).toThrowError(UnconfiguredStrictSpyError);
+			autoMocker.withReturnValue(calculator.double, 5);
+			expect(calculator.double(2)).toBe(5);
+		});
+
+		it("should keep the value types that are not replaced", () => {
+			const createdAt = new Date(2020, 0, 1);
+			const user = { name: "Ada", age: 36, createdAt };
+
+			autoMocker.mock("user", user, { replaceValues: { strings: false, dates: false } });
+
+			expect(user.name).toBe("Ada");
+			expect(user.createdAt).toBe(createdAt);
+			expect(user.age).not.toBe(36);
+		});
+
+		it("should restore what the options left untouched and what they replaced", () => {
+			const config = { name: "app", http: { timeout: 100 } };
+
+			const sandbox = autoMocker.mock("config", config, { include: ["config.http.*"] });
+			sandbox.restore();
+
+			expect(config).toEqual({ name: "app", http: { timeout: 100 } });
+		});
+	});
+});
@@ -0,0 +1,90 @@
+import { AutoMocker } from "../src/autoMocker";
+import { describeEachSpyAdapter } from "./helpers/spy-adapters";
+
+class BaseService {
+	public log(message: string): string {
+		return message;
+	}
+}
+
+class OrderService extends BaseService {
+	public sent: string[] = [];
+	public total = 10;
+	private _status = "new";
+
+	public get status(): string {
+		return this._status;
+	}
+
+	public set status(value: string) {
+		this._status = value;
+	}
+
+	public checkout(order: string): boolean {
+		this.status = "checked out";
+		this.log(order);
+		return this.send(order);
+	}
+
+	public send(order: string): boolean {
+		this.sent.push(order);
+		return true;
+	}
+}
+
+describe("AutoMocker.partialMock", () => {
+	describeEachSpyAdapter((createSpyAdapter) => {
+		let autoMocker: AutoMocker;
+
+		beforeEach(() => {
+			autoMocker = new AutoMocker({spyAdapter: createSpyAdapter()});
+		});
+
+		it("should keep the real behavior of every member but the stubbed ones", () => {
+			const service = autoMocker.partialMock(new OrderService(), {stub: ["send"]});
+
+			expect(service.checkout("order")).toBeUndefined();
+			expect(service.sent).toEqual([]);
+			expect(service.status).toBe("checked out");
+			expect(service.total).toBe(10);
+			expect(autoMocker.getCallArgs(service.send)).toEqual(["order"]);
+			expect(autoMocker.getCallArgs(service.log)).toEqual(["order"]);
+
+			autoMocker.withReturnValue(service.send, false);
+			expect(service.checkout("order")).toBeFalse();
+		});
+
+		it("should stub accessors", () => {
+			const service = autoMocker.partialMock(new OrderService(), {stub: ["status"]});
+
+			service.checkout("order");
+
+			expect(service.status).toBeUndefined();
+			expect(service.sent).toEqual(["order"]);
+		});
+
+		it("should only spy on the listed members when callThrough is given", () => {
+			const log = OrderService.prototype.log;
+			const service = autoMocker.partialMock(new OrderService(), {stub: ["send"], callThrough: ["checkout"]});
+
+			expect(service.checkout("order")).toBeUndefined();
+			expect(service.log).toBe(log);
+			expect(autoMocker.getCallCount(service.checkout)).toBe(1);
+			expect(autoMocker.getRegisteredSpies(service)).toEqual([service.send, service.checkout]);
+		});
+
+		it("should not affect other instances", () => {
+			autoMocker.partialMock(new OrderService(), {stub: ["send", "status"]});
+			const other = new OrderService();
+
+			expect(other.send("order")).toBeTrue();
+			expect(other.status).toBe("new");
+		});
+
+		it("should throw when a listed member cannot be spied on", () => {
+			expect(() => autoMocker.partialMock(new OrderService(), {stub: ["total"]})).toThrowError(
+				"partialMock: OrderService.total is not a method or accessor and cannot be spied on."
+			);
+		});
+	});
+});
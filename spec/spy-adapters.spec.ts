@@ -0,0 +1,248 @@
+import { ModuleMocker } from "jest-mock";
+import { AutoMockerPlus, readObservableSynchronously } from "../src";
+import {
+	BuiltInSpyAdapter,
+	detectSpyAdapter,
+	IJestLike,
+	ISpyAdapter,
+	JasmineSpyAdapter,
+	JestSpyAdapter
+} from "../src/spy-adapters";
+import { Observable, of } from "rxjs";
+
+class SpyAdapterTest {
+	private _value: number = 4;
+
+	public add(num1: number, num2: number): number {
+		return num1 + num2;
+	}
+
+	public describe(value: { id: number }): string {
+		return `${value.id}`;
+	}
+
+	public load(): Observable<number> {
+		return of(this._value);
+	}
+
+	public get Value(): number {
+		return this._value;
+	}
+
+	public set Value(value: number) {
+		this._value = value;
+	}
+}
+
+const adapters: [string, () => ISpyAdapter][] = [
+	["JasmineSpyAdapter", () => new JasmineSpyAdapter()],
+	["JestSpyAdapter", () => new JestSpyAdapter(new ModuleMocker(globalThis) as unknown as IJestLike)],
+	["BuiltInSpyAdapter", () => new BuiltInSpyAdapter()]
+];
+
+describe("spy adapters", () => {
+	it("should detect the jasmine adapter when running under jasmine", () => {
+		expect(detectSpyAdapter()).toBeInstanceOf(JasmineSpyAdapter);
+	});
+
+	describe("JasmineSpyAdapter with spies configured through Jasmine", () => {
+		let autoMocker: AutoMockerPlus;
+
+		beforeEach(() => {
+			autoMocker = new AutoMockerPlus({ spyAdapter: new JasmineSpyAdapter() });
+		});
+
+		it("should call through to the original method of a spy created with spyOn", () => {
+			const instance = new SpyAdapterTest();
+			const spy = spyOn(instance, "add");
+
+			autoMocker.withCallThrough(spy);
+
+			expect(instance.add(1, 2)).toBe(3);
+		});
+
+		it("should take precedence over behavior configured through and", () => {
+			const mock = autoMocker.mockClass(SpyAdapterTest);
+			(mock.add as jasmine.Spy).and.returnValue(1);
+
+			autoMocker.withReturnValue(mock.add, 2);
+
+			expect(mock.add(0, 0)).toBe(2);
+		});
+	});
+
+	adapters.forEach(([adapterName, createAdapter]) => {
+		describe(adapterName, () => {
+			let adapter: ISpyAdapter;
+			let autoMocker: AutoMockerPlus;
+			let mock: SpyAdapterTest;
+
+			beforeEach(() => {
+				adapter = createAdapter();
+				autoMocker = new AutoMockerPlus({ spyAdapter: adapter });
+				mock = autoMocker.mockClass(SpyAdapterTest);
+			});
+
+			it("should create spies for every method", () => {
+				expect(adapter.isSpy(mock.add)).toBeTrue();
+				expect(mock.add(1, 2)).toBeUndefined();
+			});
+
+			it("should not treat plain functions as spies", () => {
+				expect(adapter.isSpy(() => 1)).toBeFalse();
+				expect(() => autoMocker.withReturnValue(() => 1, 2)).toThrowError();
+			});
+
+			it("should support withReturnValue", () => {
+				autoMocker.withReturnValue(mock.add, 10);
+				expect(mock.add(1, 2)).toBe(10);
+			});
+
+			it("should support withReturnValues", () => {
+				autoMocker.withReturnValues(mock.add, [1, 2]);
+				expect(mock.add(0, 0)).toBe(1);
+				expect(mock.add(0, 0)).toBe(2);
+				expect(mock.add(0, 0)).toBeUndefined();
+			});
+
+			it("should support withCallFake", () => {
+				autoMocker.withCallFake(mock.add, (num1, num2) => num1 * num2);
+				expect(mock.add(2, 3)).toBe(6);
+			});
+
+			it("should support withFirstArgMappedReturn", () => {
+				autoMocker.withFirstArgMappedReturn(mock.add, { 2: 10 }, 30);
+				expect(mock.add(2, 3)).toBe(10);
+				expect(mock.add(4, 3)).toBe(30);
+			});
+
+			it("should support withThrows", () => {
+				autoMocker.withThrows(mock.add, "Test error");
+				expect(() => mock.add(1, 2)).toThrowError("Test error");
+			});
+
+			it("should support withReturnForArguments without affecting other arguments", () => {
+				autoMocker.withReturnValue(mock.add, -1);
+				autoMocker.withReturnForArguments(mock.add, [2, 3], 10);
+				autoMocker.withReturnForArguments(mock.describe, [{ id: 1 }], "one");
+
+				expect(mock.add(2, 3)).toBe(10);
+				expect(mock.add(3, 4)).toBe(-1);
+				expect(mock.describe({ id: 1 })).toBe("one");
+			});
+
+			it("should record calls and reset them", () => {
+				const context = { name: "context" };
+				mock.add(1, 2);
+				mock.add.call(context, 3, 4);
+
+				expect(autoMocker.getCallCount(mock.add)).toBe(2);
+				expect(autoMocker.getCallArgs(mock.add, 1)).toEqual([3, 4]);
+				expect(adapter.getCalls(mock.add)[1].thisArg).toBe(context);
+
+				autoMocker.resetSpy(mock.add);
+				expect(autoMocker.getCallCount(mock.add)).toBe(0);
+				expect(autoMocker.getCallArgs(mock.add)).toEqual([]);
+			});
+
+			it("should reset the configured behavior but keep the calls", () => {
+				autoMocker.withReturnValue(mock.add, -1);
+				autoMocker.withReturnForArguments(mock.add, [2, 3], 10);
+				mock.add(2, 3);
+
+				adapter.resetBehavior(mock.add);
+				expect(mock.add(2, 3)).toBeUndefined();
+				expect(mock.add(3, 4)).toBeUndefined();
+				expect(autoMocker.getCallCount(mock.add)).toBe(3);
+
+				autoMocker.withReturnValue(mock.add, 5);
+				expect(mock.add(2, 3)).toBe(5);
+			});
+
+			it("should record the value each call returned", () => {
+				autoMocker.withReturnValues(mock.add, [3, 7]);
+				mock.add(1, 2);
+				mock.add(3, 4);
+
+				expect(adapter.getCalls(mock.add).map((call) => call.returnValue)).toEqual([3, 7]);
+			});
+
+			it("should name spies and order calls across spies", () => {
+				mock.describe({id: 1});
+				mock.add(1, 2);
+
+				expect(adapter.getSpyName(mock.add)).toBe("SpyAdapterTest.add");
+				expect(adapter.getCalls(mock.describe)[0].invocationOrder)
+					.toBeLessThan(adapter.getCalls(mock.add)[0].invocationOrder);
+			});
+
+			it("should call through to the original function", () => {
+				const spy = adapter.createSpy("add", (num1: number, num2: number) => num1 + num2);
+				autoMocker.withCallThrough(spy);
+				expect(spy(1, 2)).toBe(3);
+			});
+
+			it("should match arguments with Jasmine asymmetric testers", () => {
+				autoMocker.withReturnForArguments(mock.describe, [jasmine.objectContaining({ id: 1 })], "one");
+
+				expect(mock.describe({ id: 1 })).toBe("one");
+				expect(mock.describe({ id: 2 })).toBeUndefined();
+			});
+
+			it("should return the existing spy when spying on a spy again", () => {
+				const obj = {
+					method: (value: number) => value * 2,
+					get value(): number {
+						return 1;
+					}
+				};
+				const spy = adapter.spyOnMethod(obj, "method");
+				const getter = adapter.spyOnAccessor(obj, "value", "get");
+
+				expect(adapter.spyOnMethod(obj, "method")).toBe(spy);
+				expect(adapter.spyOnAccessor(obj, "value", "get")).toBe(getter);
+				adapter.callThrough(spy);
+				expect(obj.method(2)).toBe(4);
+			});
+
+			it("should call the original function regardless of the configured behavior", () => {
+				const obj = { method: (value: number) => value * 2 };
+				const spy = adapter.spyOnMethod(obj, "method");
+				adapter.returnValue(spy, 0);
+
+				expect(obj.method(2)).toBe(0);
+				expect(adapter.callOriginal(spy, obj, [2])).toBe(4);
+			});
+
+			it("should support accessor spies", () => {
+				let setValue: number;
+				autoMocker.withReturnGetterValue(mock, "Value", 123);
+				autoMocker.withCallAccessorFake(mock, "Value", "set", (value: any) => {
+					setValue = value;
+				});
+
+				expect(mock.Value).toBe(123);
+				mock.Value = 5;
+				expect(setValue).toBe(5);
+
+				autoMocker.resetAccessorSpy(mock, "Value", "get");
+				expect(autoMocker.getCallCount(Object.getOwnPropertyDescriptor(mock, "Value").get)).toBe(0);
+			});
+
+			it("should support the observable helpers", () => {
+				autoMocker.withReturnObservable(mock.load, 42);
+				expect(readObservableSynchronously(mock.load())).toBe(42);
+			});
+
+			it("should mock the methods of an object", () => {
+				const obj = {
+					method: () => 45
+				};
+				autoMocker.mock("obj", obj);
+
+				expect(adapter.isSpy(obj.method)).toBeTrue();
+				expect(obj.method()).toBeUndefined();
+			});
+		});
+	});
+});
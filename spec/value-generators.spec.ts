@@ -0,0 +1,103 @@
+import { AutoMocker } from "../src/autoMocker";
+import { SeededRandom } from "../src/seeded-random";
+import { email, enumValue, getGeneratedValueType, relativeDate, uuid, ValueGeneratorRegistry } from "../src/value-generators";
+
+enum Status {
+	Active,
+	Suspended
+}
+
+describe("value generators", () => {
+	const context = (key: string, value: any) => ({
+		path: `user.${key}`,
+		key,
+		value,
+		type: getGeneratedValueType(value),
+		random: new SeededRandom(7)
+	});
+
+	describe("ValueGeneratorRegistry", () => {
+		it("should prefer the last generator registered for a matching key", () => {
+			const registry = new ValueGeneratorRegistry()
+				.forType("string", () => "type")
+				.forKey(/name$/i, () => "first")
+				.forKey("lastName", () => "last");
+
+			expect(registry.generate(context("lastName", "x"))).toEqual("last");
+			expect(registry.generate(context("firstName", "x"))).toEqual("first");
+			expect(registry.generate(context("city", "x"))).toEqual("type");
+		});
+
+		it("should only apply key generators to their types", () => {
+			const registry = new ValueGeneratorRegistry().forKey(/Id$/, () => "id", ["string"]);
+
+			expect(registry.generate(context("userId", "a"))).toEqual("id");
+			expect(registry.generate(context("userId", 1))).toEqual(1);
+		});
+
+		it("should generate ids, emails, booleans and bigints by default", () => {
+			const registry = ValueGeneratorRegistry.createDefault();
+
+			expect(registry.generate(context("accountId", "a"))).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+			expect(registry.generate(context("email", "a"))).toMatch(/^[a-z]+\.[a-z]+\d+@example\.com$/);
+			expect(typeof registry.generate(context("active", true))).toEqual("boolean");
+			expect(typeof registry.generate(context("total", BigInt(1)))).toEqual("bigint");
+		});
+	});
+
+	it("should generate dates around a fixed moment", () => {
+		const now = new Date(Date.UTC(2024, 0, 1));
+		const generate = relativeDate(now, 1);
+
+		for (let i = 0; i < 10; i++) {
+			const date = generate(context("createdAt", new Date()));
+			expect(Math.abs(date.getTime() - now.getTime())).toBeLessThanOrEqual(24 * 60 * 60 * 1000);
+		}
+	});
+
+	it("should pick enum members", () => {
+		const generate = enumValue(Status);
+
+		for (let i = 0; i < 10; i++) {
+			expect([Status.Active, Status.Suspended]).toContain(generate(context("status", 0)));
+		}
+	});
+
+	it("should generate the same values for the same seed", () => {
+		expect(uuid()(context("id", ""))).toEqual(uuid()(context("id", "")));
+		expect(email("corp.test")(context("email", ""))).toMatch(/@corp\.test$/);
+	});
+
+	describe("AutoMocker.mock", () => {
+		it("should use the registered generators", () => {
+			const autoMocker = new AutoMocker();
+			autoMocker.valueGenerators.forKey("status", enumValue(Status), ["number"]);
+			const user = { id: "1", email: "a", status: Status.Active, verified: false, name: "Ada" };
+
+			autoMocker.mock("user", user);
+
+			expect(user.id).toMatch(/^[0-9a-f]{8}-/);
+			expect(user.email).toContain("@example.com");
+			expect([Status.Active, Status.Suspended]).toContain(user.status);
+			expect(typeof user.verified).toEqual("boolean");
+			expect(user.name).toMatch(/^user\.name\d+$/);
+		});
+
+		it("should accept a registry through the options", () => {
+			const valueGenerators = new ValueGeneratorRegistry().forType("number", () => 42);
+			const config = { timeout: 1, name: "app" };
+
+			new AutoMocker({ valueGenerators }).mock("config", config);
+
+			expect(config).toEqual({ timeout: 42, name: "app" });
+		});
+
+		it("should keep the types that are not replaced", () => {
+			const user = { verified: false };
+
+			new AutoMocker({ seed: 3 }).mock("user", user, { replaceValues: { booleans: false } });
+
+			expect(user.verified).toBeFalse();
+		});
+	});
+});
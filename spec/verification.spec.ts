@@ -0,0 +1,122 @@
+import { AutoMocker } from "../src/autoMocker";
+import { anyOfType, atLeast, atMost, never, times } from "../src";
+import { Repository } from "./helpers/fixtures";
+import { describeEachSpyAdapter } from "./helpers/spy-adapters";
+
+describe("AutoMocker verification", () => {
+	describeEachSpyAdapter((createSpyAdapter) => {
+		let autoMocker: AutoMocker;
+		let repository: Repository;
+
+		beforeEach(() => {
+			autoMocker = new AutoMocker({spyAdapter: createSpyAdapter()});
+			repository = autoMocker.mockClass(Repository);
+		});
+
+		describe("verify", () => {
+			it("should check the number of calls", () => {
+				repository.load(1);
+				repository.load(2);
+
+				expect(() => autoMocker.verify(repository.load, times(2))).not.toThrow();
+				expect(() => autoMocker.verify(repository.load, atLeast(1))).not.toThrow();
+				expect(() => autoMocker.verify(repository.load, atMost(2))).not.toThrow();
+				expect(() => autoMocker.verify(repository.save, never())).not.toThrow();
+			});
+
+			it("should only count the calls matching the given arguments", () => {
+				repository.load(1);
+				repository.load(2);
+				repository.load(2);
+
+				expect(() => autoMocker.verify(repository.load, times(2), 2)).not.toThrow();
+				expect(() => autoMocker.verify(repository.load, times(3), anyOfType(Number))).not.toThrow();
+				expect(() => autoMocker.verify(repository.load, never(), 3)).not.toThrow();
+			});
+
+			it("should fail and list the recorded calls", () => {
+				repository.load(1);
+				repository.load(2);
+
+				expect(() => autoMocker.verify(repository.load, times(1), 2)).not.toThrow();
+				expect(() => autoMocker.verify(repository.load, atLeast(2), 2)).toThrowError(
+					"Expected Repository.load(2) to be called at least 2 times, but it was called 1 time."
+					+ "\nRecorded calls:\n  1. (1)\n  2. (2)"
+					+ `\n\nSeed of the mocked values: ${autoMocker.seed}`
+				);
+				expect(() => autoMocker.verify(repository.save, atMost(0))).not.toThrow();
+				expect(() => autoMocker.verify(repository.save, times(1))).toThrowError(
+					"Expected Repository.save to be called exactly 1 time, but it was called 0 times."
+					+ "\nRecorded calls:\n  (no calls)"
+					+ `\n\nSeed of the mocked values: ${autoMocker.seed}`
+				);
+			});
+
+			it("should fail when a spy was called more often than allowed", () => {
+				repository.save("a");
+
+				expect(() => autoMocker.verify(repository.save, never())).toThrowError(
+					/^Expected Repository\.save to be called exactly 0 times, but it was called 1 time\./
+				);
+			});
+
+			it("should throw an error when the spy is not a spy", () => {
+				expect(() => autoMocker.verify(() => undefined, times(1))).toThrowError(/not an actual spy/);
+			});
+		});
+
+		describe("verifyNoMoreInteractions", () => {
+			it("should pass when every call was verified", () => {
+				repository.load(1);
+				repository.save("a");
+				autoMocker.verify(repository.load, times(1));
+				autoMocker.verify(repository.save, times(1), "a");
+
+				expect(() => autoMocker.verifyNoMoreInteractions(repository)).not.toThrow();
+			});
+
+			it("should list the calls that were not verified, including accessor calls", () => {
+				repository.load(1);
+				repository.load(2);
+				void repository.isReady;
+				repository.isReady = false;
+				autoMocker.verify(repository.load, times(1), 1);
+
+				expect(() => autoMocker.verifyNoMoreInteractions(repository)).toThrowError(
+					"Expected no more interactions with Repository, but found 3 unverified calls:"
+					+ "\n  1. Repository.load(2)"
+					+ "\n  2. Repository.isReady (get)()"
+					+ "\n  3. Repository.isReady (set)(false)"
+					+ `\n\nSeed of the mocked values: ${autoMocker.seed}`
+				);
+			});
+
+			it("should accept verified accessor calls", () => {
+				void repository.isReady;
+				autoMocker.verify(autoMocker.getPropertyAccessorSpy(repository, "isReady", "get"), times(1));
+
+				expect(() => autoMocker.verifyNoMoreInteractions(repository)).not.toThrow();
+			});
+
+			it("should check mocks created with mock", () => {
+				const config = { name: "config", reload: (): void => undefined };
+				autoMocker.mock("config", config);
+				config.reload();
+
+				expect(() => autoMocker.verifyNoMoreInteractions(config)).toThrowError(
+					"Expected no more interactions with config, but found 1 unverified call:\n  1. config.reload()"
+					+ `\n\nSeed of the mocked values: ${autoMocker.seed}`
+				);
+			});
+
+			it("should forget verified calls when the calls are reset", () => {
+				repository.load(1);
+				autoMocker.verify(repository.load, times(1));
+				autoMocker.resetAll();
+				repository.load(1);
+
+				expect(() => autoMocker.verifyNoMoreInteractions(repository)).toThrowError(/1 unverified call/);
+			});
+		});
+	});
+});
@@ -1,7 +1,12 @@
 import { Observable } from "rxjs"
 export type Accessor = "get" | "set";
 export type Constructor<T> = new(...args: any[]) => T;
+export type AbstractConstructor<T> = abstract new(...args: any[]) => T;
 
 export type ObservablePropertyNames<T, O> = {
 	[K in keyof T]: T[K] extends Observable<O> ? K : never;
+}[keyof T];
+
+export type MethodNames<T> = {
+	[K in keyof T]: T[K] extends (...args: any[]) => any ? K : never;
 }[keyof T];
\ No newline at end of file
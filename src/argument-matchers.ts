@@ -0,0 +1,189 @@
+import { isEqualWith } from "lodash";
+import { Constructor } from "@types-local";
+import { formatValue } from "./format-value";
+
+/**
+ * An object that matches a value through ``` asymmetricMatch ```, such as an ``` ArgumentMatcher ```
+ * or an asymmetric tester of the test framework, e.g. ``` jasmine.objectContaining ```.
+ */
+export interface IAsymmetricMatcher {
+	asymmetricMatch(actual: any, ...rest: any[]): boolean;
+}
+
+/**
+ * A list of arguments where each argument may be replaced by a matcher.
+ */
+export type ArgumentsOrMatchers<P extends any[]> = { [I in keyof P]: P[I] | ArgumentMatcher | IAsymmetricMatcher };
+
+/**
+ * Maps first arguments to return values: either an object keyed by the argument,
+ * or a list of ``` [argumentOrMatcher, returnValue] ``` pairs checked in order.
+ */
+export type FirstArgReturnMap<T> = Record<string | number, T> | readonly (readonly [any, T])[];
+
+type TypeOfName = "string" | "number" | "boolean" | "bigint" | "symbol" | "function" | "object" | "undefined";
+
+/**
+ * Matches a single argument against a condition instead of an exact value.
+ * Matchers implement ``` asymmetricMatch ```, so they can also be used in Jasmine and Jest equality checks.
+ */
+export class ArgumentMatcher {
+	constructor(
+		private readonly description: string,
+		private readonly predicate: (actual: any) => boolean
+	) {}
+
+	public asymmetricMatch(actual: any): boolean {
+		return this.predicate(actual);
+	}
+
+	public jasmineToString(): string {
+		return this.description;
+	}
+
+	public toString(): string {
+		return this.description;
+	}
+}
+
+/**
+ * Matches any value of the given type. Primitive wrapper constructors (e.g. ``` Number ```) also match primitives.
+ *
+ * @param {Constructor<any> | TypeOfName} type - A constructor, or the name returned by ``` typeof ```.
+ * @returns {ArgumentMatcher} - The matcher.
+ */
+export function anyOfType(type: Constructor<any> | Function | TypeOfName): ArgumentMatcher {
+	if (typeof type === "string") {
+		return new ArgumentMatcher(`anyOfType(${type})`, (actual) => actual !== null && typeof actual === type);
+	}
+
+	const primitiveTypes = new Map<Function, TypeOfName>([
+		[String, "string"],
+		[Number, "number"],
+		[Boolean, "boolean"],
+		[Symbol, "symbol"],
+		[Function, "function"]
+	]);
+	const primitiveType = primitiveTypes.get(type);
+	return new ArgumentMatcher(
+		`anyOfType(${type.name})`,
+		(actual) => (primitiveType !== undefined && typeof actual === primitiveType)
+			|| (type === Object && actual !== null && typeof actual === "object")
+			|| actual instanceof type
+	);
+}
+
+/**
+ * Matches objects that contain the given properties. Property values may themselves be matchers.
+ *
+ * @param {Partial<T>} expected - The properties the argument must contain.
+ * @returns {ArgumentMatcher} - The matcher.
+ */
+export function partialObject<T>(expected: { [K in keyof T]?: T[K] | ArgumentMatcher }): ArgumentMatcher {
+	return new ArgumentMatcher(
+		`partialObject(${formatValue(expected)})`,
+		(actual) => actual !== null
+			&& actual !== undefined
+			&& Object.keys(expected).every((key) => argumentMatches(expected[key as keyof T], actual[key]))
+	);
+}
+
+/**
+ * Matches arguments for which the predicate returns true.
+ *
+ * @param {Function} predicate - The condition the argument must satisfy.
+ * @param {string} [description] - A description of the predicate, used in diagnostic messages.
+ * @returns {ArgumentMatcher} - The matcher.
+ */
+export function satisfies<T>(predicate: (actual: T) => boolean, description?: string): ArgumentMatcher {
+	return new ArgumentMatcher(`satisfies(${description || predicate.name || "predicate"})`, predicate);
+}
+
+/**
+ * Matches strings that match the regular expression.
+ *
+ * @param {RegExp} regex - The regular expression.
+ * @returns {ArgumentMatcher} - The matcher.
+ */
+export function matchesRegex(regex: RegExp): ArgumentMatcher {
+	return new ArgumentMatcher(`matchesRegex(${regex})`, (actual) => {
+		regex.lastIndex = 0;
+		return typeof actual === "string" && regex.test(actual);
+	});
+}
+
+/**
+ * Matches arrays that contain all the given items, in any order. Items may themselves be matchers.
+ *
+ * @param {any[]} items - The items the array must contain.
+ * @returns {ArgumentMatcher} - The matcher.
+ */
+export function arrayContaining(...items: any[]): ArgumentMatcher {
+	return new ArgumentMatcher(
+		`arrayContaining(${items.map((item) => formatValue(item)).join(", ")})`,
+		(actual) => Array.isArray(actual)
+			&& items.every((item) => actual.some((element) => argumentMatches(item, element)))
+	);
+}
+
+/**
+ * Checks whether an argument matches an expected value or matcher.
+ *
+ * @param {any} expected - The expected value, or a matcher.
+ * @param {any} actual - The actual argument.
+ * @returns {boolean} - True if the argument matches.
+ */
+export function argumentMatches(expected: any, actual: any): boolean {
+	return isEqualWith(expected, actual, (expectedValue, actualValue) => {
+		if (expectedValue && typeof expectedValue.asymmetricMatch === "function") {
+			return expectedValue.asymmetricMatch(actualValue, matchersUtil);
+		}
+		return undefined;
+	});
+}
+
+// Jasmine asymmetric testers such as `jasmine.objectContaining` compare nested values through the matchers util they are given
+const matchersUtil = {
+	equals: (a: any, b: any): boolean => argumentMatches(a, b),
+	contains: (haystack: any, needle: any): boolean => typeof haystack === "string"
+		? haystack.includes(needle)
+		: Array.from(haystack || []).some((item) => argumentMatches(needle, item))
+};
+
+/**
+ * Describes what a spy configured for specific arguments does when it is called with arguments that match nothing.
+ */
+export class UnmatchedArgumentsFallback {
+	private constructor(
+		public readonly kind: "returnValue" | "callThrough" | "throwError",
+		public readonly value?: any
+	) {}
+
+	/**
+	 * Return the given value when nothing matches.
+	 *
+	 * @param {T} value - The value to return.
+	 * @returns {UnmatchedArgumentsFallback} - The fallback.
+	 */
+	public static returnValue<T>(value: T): UnmatchedArgumentsFallback {
+		return new UnmatchedArgumentsFallback("returnValue", value);
+	}
+
+	/**
+	 * Call the original function when nothing matches.
+	 *
+	 * @returns {UnmatchedArgumentsFallback} - The fallback.
+	 */
+	public static callThrough(): UnmatchedArgumentsFallback {
+		return new UnmatchedArgumentsFallback("callThrough");
+	}
+
+	/**
+	 * Throw an error listing the registered arguments when nothing matches.
+	 *
+	 * @returns {UnmatchedArgumentsFallback} - The fallback.
+	 */
+	public static throwError(): UnmatchedArgumentsFallback {
+		return new UnmatchedArgumentsFallback("throwError");
+	}
+}
@@ -2,9 +2,18 @@ import { NEVER, Observable, of, ReplaySubject, startWith, Subject, throwError }
 import { AutoMocker } from './autoMocker';
 import { TestSubscriptionCounter } from './test-subscription-counter';
 import { ObservablePropertyNames } from '@types-local'
+import { MockSetupPlus } from './mock-setup-plus';
+import { FirstArgReturnMap, UnmatchedArgumentsFallback } from './argument-matchers';
+import { Factory, FactoryOverrides } from './factory';
+import { addAfterSpecAction } from './spec-hooks';
 
 type ObservableType<T> = T extends Observable<infer U> ? U : T;
 
+/**
+ * How ``` withReturnBuilt ``` returns the built object: as is, emitted by an observable or resolved by a promise.
+ */
+export type BuiltReturnType = "value" | "observable" | "promise";
+
 /**
  * Represents a subject counter that associates a ReplaySubject with a TestSubscriptionCounter.
  *
@@ -16,6 +25,17 @@ export interface ISubjectCounter<T> {
 }
 
 export class AutoMockerPlus extends AutoMocker {
+	/**
+	 * Starts a fluent builder for configuring many spies on one mock, including the observable and promise helpers.
+	 *
+	 * @template T - The type of the mock.
+	 * @param {T} mock - The mock to configure.
+	 * @returns {MockSetupPlus<T>} - The builder for the mock.
+	 */
+	public setup<T>(mock: T): MockSetupPlus<T> {
+		return new MockSetupPlus(this, mock, this.getMockName(mock));
+	}
+
 	/**
 	 * Creates an Observable that mimics the behavior of a spy function.
 	 *
@@ -32,10 +52,10 @@ export class AutoMockerPlus extends AutoMocker {
 	): Observable<T> {
 		if (this.isSpyLike(spy)) {
 			const observable = of(resolveWith);
-			spy.and.returnValue(observable);
+			this.spyAdapter.returnValue(spy, observable);
 			return observable;
 		}
-		this.throwNotASpyError('withReturnObservable', spyName);
+		this.throwNotASpyError('withReturnObservable', spyName, spy);
 	}
 
 	/**
@@ -52,10 +72,10 @@ export class AutoMockerPlus extends AutoMocker {
 	): Observable<T> {
 		if (this.isSpyLike(spy)) {
 			const observable: Observable<T> = NEVER;
-			spy.and.returnValue(observable);
+			this.spyAdapter.returnValue(spy, observable);
 			return observable;
 		}
-		this.throwNotASpyError("withReturnNonEmittingObservable", spyName);
+		this.throwNotASpyError("withReturnNonEmittingObservable", spyName, spy);
 	}
 
 	/**
@@ -76,10 +96,10 @@ export class AutoMockerPlus extends AutoMocker {
 		if (this.isSpyLike(spy)) {
 			const observable = of(nextValue);
 			const counter = new TestSubscriptionCounter(observable);
-			spy.and.returnValue(counter.countedObservable$);
+			this.spyAdapter.returnValue(spy, counter.countedObservable$);
 			return counter;
 		}
-		this.throwNotASpyError("withReturnCompletingCountedObservable", spyName);
+		this.throwNotASpyError("withReturnCompletingCountedObservable", spyName, spy);
 	}
 
 	/**
@@ -103,10 +123,10 @@ export class AutoMockerPlus extends AutoMocker {
 		if (this.isSpyLike(spy)) {
 			const nonCompletingObservable: Observable<T> = NEVER.pipe(startWith(nextValue));
 			const counter = new TestSubscriptionCounter(nonCompletingObservable);
-			spy.and.returnValue(counter.countedObservable$);
+			this.spyAdapter.returnValue(spy, counter.countedObservable$);
 			return counter;
 		}
-		this.throwNotASpyError("withReturnNonCompletingCountedObservable", spyName);
+		this.throwNotASpyError("withReturnNonCompletingCountedObservable", spyName, spy);
 	}
 
 	/**
@@ -133,7 +153,7 @@ export class AutoMockerPlus extends AutoMocker {
 			this.withReturnValues(spy, observables, spyName);
 			return observables;
 		}
-		this.throwNotASpyError("withReturnObservables", spyName);
+		this.throwNotASpyError("withReturnObservables", spyName, spy);
 	}
 
 	/**
@@ -151,10 +171,10 @@ export class AutoMockerPlus extends AutoMocker {
 	): Observable<T> {
 		if (this.isSpyLike(spy)) {
 			const observable: Observable<T> = throwError(() => new Error(error));
-			spy.and.returnValue(observable);
+			this.spyAdapter.returnValue(spy, observable);
 			return observable;
 		}
-		this.throwNotASpyError("withReturnThrowObservable", spyName);
+		this.throwNotASpyError("withReturnThrowObservable", spyName, spy);
 	}
 
 	/**
@@ -163,26 +183,26 @@ export class AutoMockerPlus extends AutoMocker {
 	 *
 	 * @template T - The expected return of the observable
 	 * @param {Function} spy - The spy function to be mapped.
-	 * @param {Record<string|number, T>} returnMap - A map of return values based on the first argument.
-	 * @param {T} defaultReturn - The default return value if the first argument is not in the map. Default is undefined.
+	 * @param {FirstArgReturnMap<T>} returnMap - A map of return values based on the first argument, or a list of [argument or matcher, value] pairs.
+	 * @param {T | UnmatchedArgumentsFallback} defaultReturn - The default return value if the first argument is not in the map, or the fallback to apply. Default is undefined.
 	 * @param {string} [spyName] - Optional name of the spy function.
 	 * @returns {void}
 	 */
 	public withFirstArgMappedReturnObservable<T>(
-		spy: (arg1: string | number, ...args: any[]) => Observable<T>,
-		returnMap: Record<string | number, T>,
-		defaultReturn: T = undefined,
+		spy: (arg1: any, ...args: any[]) => Observable<T>,
+		returnMap: FirstArgReturnMap<T>,
+		defaultReturn: T | UnmatchedArgumentsFallback = undefined,
 		spyName?: string
 	): void {
 		if (this.isSpyLike(spy)) {
-			spy.and.callFake((key) =>
-				Object.prototype.hasOwnProperty.call(returnMap, key)
-					? of(returnMap[key])
-					: of(defaultReturn)
+			this.spyAdapter.callFake(
+				spy,
+				this.createFirstArgMappedFake(spy, returnMap, defaultReturn, spyName, (value) => of(value))
 			);
+			this.behaviorRecorder.setBehaviorDescription(spy, "returns observables mapped by the first argument");
 			return;
 		}
-		this.throwNotASpyError("withFirstArgMappedReturnObservable", spyName);
+		this.throwNotASpyError("withFirstArgMappedReturnObservable", spyName, spy);
 	}
 
 	/**
@@ -205,6 +225,7 @@ export class AutoMockerPlus extends AutoMocker {
 		replayBuffer = 1
 	): ReplaySubject<U> {
 		const subject = new ReplaySubject<U>(replayBuffer);
+		this.registry.recordReplacedProperty(objectMock as unknown as object, this.getMockName(objectMock), observablePropertyName);
 		(objectMock[observablePropertyName] as any) = subject.asObservable();
 		if (initialValue !== undefined) {
 			subject.next(initialValue);
@@ -235,6 +256,7 @@ export class AutoMockerPlus extends AutoMocker {
 	): ISubjectCounter<U> {
 		const subject = new ReplaySubject<U>(replayBuffer);
 		const counter = new TestSubscriptionCounter(subject.asObservable());
+		this.registry.recordReplacedProperty(objectMock as unknown as object, this.getMockName(objectMock), observablePropertyName);
 		(objectMock[observablePropertyName] as any) = counter.countedObservable$;
 		if (initialValue !== undefined) {
 			subject.next(initialValue);
@@ -262,10 +284,10 @@ export class AutoMockerPlus extends AutoMocker {
 	): Subject<T> {
 		if (this.isSpyLike(spy)) {
             const subject = new Subject<T>();
-            spy.and.returnValue(subject.asObservable());
+            this.spyAdapter.returnValue(spy, subject.asObservable());
             return subject;
         }
-        this.throwNotASpyError("withReturnSubjectAsObservable", spyName);
+        this.throwNotASpyError("withReturnSubjectAsObservable", spyName, spy);
 	}
 
 	/**
@@ -290,10 +312,10 @@ export class AutoMockerPlus extends AutoMocker {
 				subject.error(new Error("error"));
 			}
 			const observable: Observable<T> = subject.asObservable();
-			spy.and.returnValue(observable);
+			this.spyAdapter.returnValue(spy, observable);
 			return subject;
 		}
-		this.throwNotASpyError(spyName);
+		this.throwNotASpyError("withReturnSubjectWithErrorAsObservable", spyName, spy);
 	}
 
 	/**
@@ -311,10 +333,45 @@ export class AutoMockerPlus extends AutoMocker {
 	): Promise<T> {
 		if (this.isSpyLike(spy)) {
 			const promise = Promise.resolve(resolveWith);
-			spy.and.returnValue(promise);
+			this.spyAdapter.returnValue(spy, promise);
 			return promise;
 		}
-		return this.throwNotASpyError(spyName);
+		return this.throwNotASpyError("withReturnPromise", spyName, spy);
+	}
+
+	/**
+	 * Makes a spy return an object built by a factory, backed by ``` withReturnValue ```, ``` withReturnObservable ``` or ``` withReturnPromise ```.
+	 *
+	 * @example
+	 * const user = autoMocker.withReturnBuilt(userService.getUser, userFactory, { name: "Ada" }, "observable");
+	 *
+	 * @template T - The type of the built object.
+	 * @param {Function} spy - The spy to configure.
+	 * @param {Factory<T>} factory - The factory that builds the object.
+	 * @param {FactoryOverrides<T>} [overrides] - The overrides passed to the factory.
+	 * @param {BuiltReturnType} [returnAs] - How the spy returns the object. Defaults to ``` "value" ```.
+	 * @param {string} [spyName] - The name of the spy function. Optional.
+	 * @returns {T} - The built object, for use in expectations.
+	 */
+	public withReturnBuilt<T>(
+		spy: (...args: any[]) => T | Observable<T> | Promise<T>,
+		factory: Factory<T>,
+		overrides: FactoryOverrides<T> = {},
+		returnAs: BuiltReturnType = "value",
+		spyName?: string
+	): T {
+		if (this.isSpyLike(spy)) {
+			const built = factory.build(overrides);
+			if (returnAs === "observable") {
+				this.withReturnObservable(spy as (...args: any[]) => Observable<T>, built, spyName);
+			} else if (returnAs === "promise") {
+				this.withReturnPromise(spy as (...args: any[]) => Promise<T>, built, spyName);
+			} else {
+				this.withReturnValue(spy as (...args: any[]) => T, built, spyName);
+			}
+			return built;
+		}
+		this.throwNotASpyError("withReturnBuilt", spyName, spy);
 	}
 
 	/**
@@ -332,11 +389,18 @@ export class AutoMockerPlus extends AutoMocker {
 	): Promise<T> {
 		if (this.isSpyLike(spy)) {
 			const promise = Promise.reject(rejectWith);
-			spy.and.returnValue(promise);
+			this.spyAdapter.returnValue(spy, promise);
 			return promise;
 		}
-		return this.throwNotASpyError(spyName);
+		return this.throwNotASpyError("withReturnRejectedPromise", spyName, spy);
 	}
 }
 
-export const defaultAutoMockerInstance = new AutoMockerPlus();
\ No newline at end of file
+/**
+ * An AutoMockerPlus shared across specs. Once ``` registerAutoMockerHooks ``` was called,
+ * its registry is cleared after every spec, so mocks do not outlive their spec.
+ * Use an own AutoMocker to reset mocks created in ``` beforeAll ``` with ``` resetAll ```.
+ */
+export const defaultAutoMockerInstance = new AutoMockerPlus();
+
+addAfterSpecAction(() => defaultAutoMockerInstance.clearRegistry());
\ No newline at end of file
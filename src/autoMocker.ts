@@ -1,7 +1,42 @@
 // noinspection JSValidateJSDoc
 
-import {isEmpty, uniq} from "lodash";
-import { Accessor, Constructor } from "@types-local";
+import { uniq, uniqBy } from "lodash";
+import { NEVER } from "rxjs";
+import { AbstractConstructor, Accessor, Constructor, MethodNames, ObservablePropertyNames } from "@types-local";
+import { BehaviorRecordingSpyAdapter, detectSpyAdapter, ISpyAdapter, ISpyCall } from "./spy-adapters";
+import { formatArguments, formatValue } from "./format-value";
+import { SeededRandom } from "./seeded-random";
+import { MockSetup } from "./mock-setup";
+import { argumentMatches, ArgumentsOrMatchers, FirstArgReturnMap, UnmatchedArgumentsFallback } from "./argument-matchers";
+import { IOrderedCallExpectation, verifyCallOrder } from "./call-order";
+import { IRegisteredMock, MockRegistry } from "./mock-registry";
+import { MockSandbox } from "./mock-sandbox";
+import { PropertyPathFilter } from "./property-path";
+import { GeneratedValueType, getGeneratedValueType, ValueGeneratorRegistry } from "./value-generators";
+import { defineFactory, Factory, FactoryDefinition, IFactoryOptions } from "./factory";
+import { formatMockDescription, IMockMemberDescription } from "./describe-mock";
+import {
+	AccessorNotFoundError,
+	AmbiguousDependencyError,
+	CallNotFoundError,
+	ConstructedInstanceNotFoundError,
+	DependencyNotFoundError,
+	InvalidDependencyError,
+	MemberNotSpiableError,
+	NestedMockNotFoundError,
+	NotAMockedConstructorError,
+	NotASpyError,
+	UnconfiguredStrictSpyError,
+	UnmatchedArgumentsError,
+	VerificationError
+} from "./errors";
+import {
+	createUnverifiedCallsMessage,
+	createVerificationFailureMessage,
+	IUnverifiedCall,
+	VerificationMode
+} from "./verification";
+import { IInteractionSnapshotOptions, ISnapshotSpy, matchInteractionSnapshot, serializeInteractions } from "./interaction-snapshot";
 
 /**
  * Represents the data structure for member data of a given type.
@@ -25,6 +60,22 @@ interface IMemberData<T> {
 	readonly definedPropertiesData: readonly IDefinedPropertyData<T>[];
 }
 
+/**
+ * Represents the instances of a constructor created by ``` mockConstructor ```.
+ * @interface
+ * @template T - The type of the instances.
+ */
+interface IMockedConstructorState<T> {
+	/**
+	 * The instances created so far, in order.
+	 */
+	readonly instances: T[];
+	/**
+	 * The instances to return from the next calls, before falling back to fresh mocks.
+	 */
+	readonly configuredInstances: T[];
+}
+
 /**
  * Represents defined property data.
  * @interface
@@ -76,76 +127,886 @@ export interface IMockClassOptions<T> {
 	 * Default value: ``` false ```
 	 */
 	readonly ignoreAllProperties: boolean;
+	/**
+	 * Throw when a mocked method or accessor is called before it has been configured
+	 * (e.g. through ``` withReturnValue ``` or ``` withCallFake ```).
+	 *
+	 * Default value: the ``` strict ``` value the AutoMocker was created with
+	 */
+	readonly strict: boolean;
+	/**
+	 * Let the getter and setter spies of each property share a backing value, so a value that is set is returned by the getter.
+	 * Pass an object to seed the backing values. Calls are still recorded and ``` withReturnGetterValue ``` still overrides the getter.
+	 * Takes precedence over ``` strict ``` for accessors.
+	 *
+	 * Default value: ``` false ```
+	 */
+	readonly statefulProperties: boolean | Partial<T>;
+	/**
+	 * Members that are declared but have no runtime implementation, such as the abstract members of an abstract class.
+	 *
+	 * Default value: ``` {} ```
+	 */
+	readonly abstractMembers: Partial<IMockMembers<T>>;
+	/**
+	 * Members that return other services, mapped to the class to mock them with.
+	 * The nested mocks are created recursively up to the ``` maxDepth ``` of the AutoMocker,
+	 * wired up as the return values of the members and can be retrieved with ``` getNestedMock ```.
+	 *
+	 * Default value: ``` {} ```
+	 */
+	readonly nested: NestedMocks<T>;
+}
+
+/**
+ * The type of the nested mock for a member: the return type for methods, the member type otherwise.
+ */
+export type NestedMockType<TMember> = TMember extends (...args: any[]) => infer TReturn ? TReturn : TMember;
+
+/**
+ * Interface representing a nested mock created with its own options.
+ */
+export interface INestedMockDefinition<T> {
+	/**
+	 * The class to mock.
+	 */
+	readonly type: Constructor<T> | AbstractConstructor<T>;
+	/**
+	 * The options for mocking the class.
+	 */
+	readonly options?: Partial<IMockClassOptions<T>>;
+}
+
+/**
+ * Maps member names to the class, or class and options, of their nested mock.
+ */
+export type NestedMocks<T> = {
+	readonly [K in keyof T]?: Constructor<NestedMockType<T[K]>>
+		| AbstractConstructor<NestedMockType<T[K]>>
+		| INestedMockDefinition<NestedMockType<T[K]>>
+};
+
+/**
+ * Interface listing the members of a mock that cannot be discovered at runtime.
+ */
+export interface IMockMembers<T> {
+	/**
+	 * Methods to be mocked with spies.
+	 *
+	 * Default value: ``` [] ```
+	 */
+	readonly methods: readonly MethodNames<T>[];
+	/**
+	 * Properties to be mocked with getter spies.
+	 *
+	 * Default value: ``` [] ```
+	 */
+	readonly getters: readonly (keyof T)[];
+	/**
+	 * Properties to be mocked with setter spies.
+	 *
+	 * Default value: ``` [] ```
+	 */
+	readonly setters: readonly (keyof T)[];
+	/**
+	 * Observable properties. They are initialized with a non-emitting observable and can be replaced,
+	 * e.g. through ``` withReturnSubjectForObservableProperty ```.
+	 *
+	 * Default value: ``` [] ```
+	 */
+	readonly observables: readonly ObservablePropertyNames<T, any>[];
+}
+
+/**
+ * Interface representing options for mocking an interface or type with ``` mockInterface ```.
+ */
+export interface IMockInterfaceOptions<T> extends IMockMembers<T> {
+	/**
+	 * See ``` IMockClassOptions.strict ```.
+	 *
+	 * Default value: the ``` strict ``` value the AutoMocker was created with
+	 */
+	readonly strict: boolean;
 }
 
 const mockClassOptionsDefaults: IMockClassOptions<any> = {
 	additionalMethodsToMock: [],
 	ignoredProperties: [],
-	ignoreAllProperties: false
+	ignoreAllProperties: false,
+	strict: false,
+	statefulProperties: false,
+	abstractMembers: {},
+	nested: {}
+}
+
+const mockMembersDefaults: IMockMembers<any> = {
+	methods: [],
+	getters: [],
+	setters: [],
+	observables: []
+}
+
+/**
+ * Interface representing options for spying on a real instance with ``` partialMock ```.
+ */
+export interface IPartialMockOptions<T> {
+	/**
+	 * Methods and accessors to stub. They return undefined instead of running the real implementation until configured.
+	 *
+	 * Default value: ``` [] ```
+	 */
+	readonly stub: readonly (keyof T)[];
+	/**
+	 * Methods and accessors to spy on while keeping their real implementation. Members listed in neither option are left untouched.
+	 *
+	 * Default value: every method and accessor not listed in ``` stub ```
+	 */
+	readonly callThrough: readonly (keyof T)[];
+}
+
+/**
+ * The names of the static members of a class.
+ */
+export type StaticMemberNames<C> = Exclude<keyof C, "prototype">;
+
+/**
+ * Interface representing options for mocking the static members of a class with ``` mockStatics ```.
+ */
+export interface IMockStaticsOptions<C> {
+	/**
+	 * Static methods to mock in addition to the ones discovered on the class and its static inheritance chain.
+	 *
+	 * Default value: ``` [] ```
+	 */
+	readonly additionalMethodsToMock: readonly StaticMemberNames<C>[];
+	/**
+	 * Static accessors that should not be mocked.
+	 *
+	 * Default value: ``` [] ```
+	 */
+	readonly ignoredProperties: readonly StaticMemberNames<C>[];
+	/**
+	 * Do not mock any static accessors.
+	 *
+	 * Default value: ``` false ```
+	 */
+	readonly ignoreAllProperties: boolean;
+	/**
+	 * See ``` IMockClassOptions.strict ```.
+	 *
+	 * Default value: the ``` strict ``` value the AutoMocker was created with
+	 */
+	readonly strict: boolean;
+}
+
+const mockStaticsOptionsDefaults: IMockStaticsOptions<any> = {
+	additionalMethodsToMock: [],
+	ignoredProperties: [],
+	ignoreAllProperties: false,
+	strict: false
+}
+
+// Own properties every function has, which are never mocked as static members
+const functionPropertyNames: readonly PropertyKey[] = ["length", "name", "prototype", "arguments", "caller"];
+
+/**
+ * Interface representing a dependency of a class created with ``` createSut ```, for constructors whose parameters
+ * are not classes themselves, such as the injection tokens of DI-style constructors.
+ */
+export interface ISutDependencyDefinition<T> {
+	/**
+	 * The key the mock is retrieved by with ``` getMock ```, e.g. an injection token.
+	 * Dependencies sharing a token, such as the same class passed twice, are only available by position through ``` mocks ```.
+	 *
+	 * Default value: ``` type ```
+	 */
+	readonly token?: unknown;
+	/**
+	 * The class to mock.
+	 */
+	readonly type?: Constructor<T> | AbstractConstructor<T>;
+	/**
+	 * The options for mocking the class.
+	 */
+	readonly options?: Partial<IMockClassOptions<T>>;
+	/**
+	 * A value passed to the constructor instead of a mock, e.g. a configuration object.
+	 */
+	readonly value?: T;
+}
+
+/**
+ * A dependency of a class created with ``` createSut ```: the class to mock, or its definition.
+ */
+export type SutDependency<T = any> = Constructor<T> | AbstractConstructor<T> | ISutDependencyDefinition<T>;
+
+/**
+ * The type of the instance passed to the constructor for a dependency.
+ */
+export type SutDependencyType<D> = D extends Constructor<infer T> | AbstractConstructor<infer T>
+	? T
+	: D extends ISutDependencyDefinition<infer T> ? T : never;
+
+/**
+ * The mocks of the dependencies of a class created with ``` createSut ```, in the order of the dependencies.
+ */
+export type SutMocks<TDependencies extends readonly unknown[]> = {
+	-readonly [I in keyof TDependencies]: SutDependencyType<TDependencies[I]>;
+};
+
+/**
+ * The options for mocking the dependencies of a class created with ``` createSut ```, in the order of the dependencies.
+ */
+export type SutOverrides<TDependencies extends readonly unknown[]> = {
+	readonly [I in keyof TDependencies]?: Partial<IMockClassOptions<SutDependencyType<TDependencies[I]>>>;
+};
+
+/**
+ * The class under test created with ``` createSut ``` and the mocks it was created with.
+ */
+export interface ISut<TSut, TDependencies extends readonly unknown[]> {
+	/**
+	 * The instance of the class under test.
+	 */
+	readonly sut: TSut;
+	/**
+	 * The mocks, in the order of the dependencies.
+	 */
+	readonly mocks: SutMocks<TDependencies>;
+
+	/**
+	 * Retrieves the mock of a dependency by its class or token.
+	 *
+	 * @param {unknown} token - The class or the token of the dependency.
+	 * @returns {T} - The mock.
+	 * @throws {DependencyNotFoundError} - If no dependency has the token.
+	 * @throws {AmbiguousDependencyError} - If more than one dependency has the token.
+	 */
+	getMock<T>(token: Constructor<T> | AbstractConstructor<T>): T;
+	getMock<T = any>(token: unknown): T;
+}
+
+/**
+ * How ``` AutoMocker.mock ``` spies on the methods it finds:
+ * ``` "stub" ``` spies return undefined, ``` "callThrough" ``` spies keep the real behavior
+ * and ``` "strict" ``` spies throw until they are configured.
+ */
+export type MockMethodMode = "stub" | "callThrough" | "strict";
+
+/**
+ * The types of values ``` AutoMocker.mock ``` replaces with generated values.
+ */
+export interface IReplacedValueTypes {
+	readonly strings: boolean;
+	readonly numbers: boolean;
+	readonly booleans: boolean;
+	readonly bigints: boolean;
+	readonly dates: boolean;
+}
+
+/**
+ * Interface representing options for mocking an object with ``` AutoMocker.mock ```.
+ */
+export interface IMockOptions {
+	/**
+	 * The maximum depth to traverse when mocking nested objects. Each branch is limited separately;
+	 * the items of an array count at the depth of the array.
+	 *
+	 * Default value: the ``` maxDepth ``` the AutoMocker was created with
+	 */
+	readonly maxDepth: number;
+	/**
+	 * The seed used to generate the mocked strings, numbers and dates of this call only.
+	 * The seed that was used is available as ``` MockSandbox.seed ```.
+	 *
+	 * Default value: the ``` seed ``` the AutoMocker was created with
+	 */
+	readonly seed: number;
+	/**
+	 * Globs of the property paths to mock. Paths start with the object name and separate keys with dots,
+	 * e.g. ``` config.http.* ``` or ``` config.servers.0.host ```. ``` * ``` matches any part of one key and ``` ** ``` any number of keys.
+	 * The properties of a matching object are mocked as well.
+	 *
+	 * Default value: ``` [] ```, which mocks every property
+	 */
+	readonly include: readonly string[];
+	/**
+	 * Globs of the property paths to leave untouched, including the properties of matching objects. Takes precedence over ``` include ```.
+	 *
+	 * Default value: ``` [] ```
+	 */
+	readonly exclude: readonly string[];
+	/**
+	 * How the methods found are spied on. See ``` MockMethodMode ```.
+	 *
+	 * Default value: ``` "stub" ```
+	 */
+	readonly methods: MockMethodMode;
+	/**
+	 * The types of values to replace with generated values. Values of the other types are kept.
+	 *
+	 * Default value: every type is replaced
+	 */
+	readonly replaceValues: Partial<IReplacedValueTypes>;
+}
+
+const replacedValueTypesDefaults: IReplacedValueTypes = {
+	strings: true,
+	numbers: true,
+	booleans: true,
+	bigints: true,
+	dates: true
+}
+
+const replacedValueTypeOptions: Record<GeneratedValueType, keyof IReplacedValueTypes> = {
+	string: "strings",
+	number: "numbers",
+	boolean: "booleans",
+	bigint: "bigints",
+	date: "dates"
 }
 
+/**
+ * The state shared while ``` AutoMocker.mock ``` traverses one object graph.
+ */
+interface IMockTraversal {
+	readonly maxDepth: number;
+	readonly sandbox: MockSandbox;
+	readonly filter: PropertyPathFilter;
+	readonly methods: MockMethodMode;
+	readonly replaceValues: IReplacedValueTypes;
+	/**
+	 * The source of the generated values, seeded for this traversal only.
+	 */
+	readonly random: SeededRandom;
+	/**
+	 * The objects already visited, so self-referencing graphs are traversed once.
+	 */
+	readonly visited: WeakSet<object>;
+}
+
+/**
+ * Interface representing options for creating an AutoMocker.
+ */
+export interface IAutoMockerOptions {
+	/**
+	 * The maximum depth to traverse when mocking nested objects.
+	 *
+	 * Default value: ``` 1 ```
+	 */
+	readonly maxDepth: number;
+	/**
+	 * The adapter used to create and configure spies.
+	 *
+	 * Default value: the adapter detected for the running test framework (see ``` detectSpyAdapter ```)
+	 */
+	readonly spyAdapter: ISpyAdapter;
+	/**
+	 * Create strict mocks from ``` mockClass ``` by default. See ``` IMockClassOptions.strict ```.
+	 *
+	 * Default value: ``` false ```
+	 */
+	readonly strict: boolean;
+	/**
+	 * The seed used to generate the mocked strings, numbers and dates in ``` mock ```.
+	 * Pass the seed of a failing spec, e.g. from the message of a verification, strict mock or snapshot error, or from ``` MockSandbox.seed ```, to replay it exactly.
+	 *
+	 * Default value: a random seed
+	 */
+	readonly seed: number;
+	/**
+	 * The generators of the values ``` mock ``` replaces primitives and dates with.
+	 *
+	 * Default value: ``` ValueGeneratorRegistry.createDefault() ```
+	 */
+	readonly valueGenerators: ValueGeneratorRegistry;
+}
 
 export class AutoMocker {
+	/**
+	 * The seed used to generate mocked values, unless a call to ``` mock ``` overrides it.
+	 * It is included in the messages of verification, strict mock and snapshot errors, and in the messages logged for properties that cannot be mocked.
+	 */
+	public readonly seed: number;
+	/**
+	 * The generators of the values ``` mock ``` replaces primitives and dates with. Register generators for types or keys here.
+	 */
+	public readonly valueGenerators: ValueGeneratorRegistry;
+	private readonly maxDepth: number;
+	private readonly strict: boolean;
+	private readonly mockNames = new WeakMap<object, string>();
+	private readonly registeredArguments = new WeakMap<Function, any[][]>();
+	private readonly verifiedCalls = new WeakMap<Function, Set<number>>();
+	private readonly nestedMocks = new WeakMap<object, Map<PropertyKey, any>>();
+	private readonly constructorStates = new WeakMap<Function, IMockedConstructorState<any>>();
+	protected readonly spyAdapter: ISpyAdapter;
+	protected readonly behaviorRecorder: BehaviorRecordingSpyAdapter;
+	protected readonly registry = new MockRegistry();
 
-	constructor(private readonly maxDepth: number = 1) {}
+	/**
+	 * @param {number | Partial<IAutoMockerOptions>} [options] - The options for the AutoMocker, or the maximum depth to traverse when mocking nested objects.
+	 */
+	constructor(options: number | Partial<IAutoMockerOptions> = {}) {
+		const appliedOptions = typeof options === "number" ? { maxDepth: options } : options;
+		this.maxDepth = appliedOptions.maxDepth ?? 1;
+		this.behaviorRecorder = new BehaviorRecordingSpyAdapter(appliedOptions.spyAdapter ?? detectSpyAdapter());
+		this.spyAdapter = this.behaviorRecorder;
+		this.strict = appliedOptions.strict ?? false;
+		this.seed = appliedOptions.seed ?? SeededRandom.createSeed();
+		this.valueGenerators = appliedOptions.valueGenerators ?? ValueGeneratorRegistry.createDefault();
+	}
 
 	/**
 	 * Creates a mock object of a given class with the specified options.
+	 * Abstract classes are supported; list their abstract members through ``` abstractMembers ```.
 	 *
-	 * @param {Constructor<T>} ctor - The class constructor to mock.
+	 * @param {Constructor<T> | AbstractConstructor<T>} ctor - The class constructor to mock.
 	 * @param {Partial<IMockClassOptions<T>>} [options] - The options for mocking the class.
 	 * @return {T} - The mock object.
 	 */
 	public mockClass<T>(
-		ctor: Constructor<T>,
+		ctor: Constructor<T> | AbstractConstructor<T>,
 		options?: Partial<IMockClassOptions<T>>
+	): T {
+		return this.mockClassAtDepth(ctor, options, 0);
+	}
+
+	/**
+	 * Returns the nested mock created for a member through the ``` nested ``` option of ``` mockClass ```.
+	 *
+	 * @example
+	 * const facade = autoMocker.mockClass(Facade, { nested: { userService: UserService } });
+	 * autoMocker.withReturnValue(autoMocker.getNestedMock(facade, "userService").load, user);
+	 *
+	 * @param {T} mock - The mock the nested mock belongs to.
+	 * @param {K} key - The name of the member.
+	 * @returns {NestedMockType<T[K]>} - The nested mock.
+	 * @throws {NestedMockNotFoundError} - If no nested mock was created for the member.
+	 */
+	public getNestedMock<T, K extends keyof T>(mock: T, key: K): NestedMockType<T[K]> {
+		const nestedMocks = this.nestedMocks.get(mock as unknown as object);
+		if (!nestedMocks?.has(key)) {
+			throw new NestedMockNotFoundError(this.getMockName(mock), String(key));
+		}
+		return nestedMocks.get(key);
+	}
+
+	/**
+	 * Creates a mock object of a given class, creating its nested mocks while the depth is below the maximum depth.
+	 *
+	 * @param {Constructor<T> | AbstractConstructor<T>} ctor - The class constructor to mock.
+	 * @param {Partial<IMockClassOptions<T>>} options - The options for mocking the class.
+	 * @param {number} depth - The current depth of nesting.
+	 * @private
+	 * @returns {T} - The mock object.
+	 */
+	private mockClassAtDepth<T>(
+		ctor: Constructor<T> | AbstractConstructor<T>,
+		options: Partial<IMockClassOptions<T>>,
+		depth: number
 	): T {
 		const appliedOptions = {
 			...mockClassOptionsDefaults as IMockClassOptions<T>,
+			strict: this.strict,
 			...options
 		};
+		const abstractMembers: IMockMembers<T> = {
+			...mockMembersDefaults as IMockMembers<T>,
+			...appliedOptions.abstractMembers
+		};
 
 		const memberData = this.getMemberData(ctor);
 		const allMethodsToMock: readonly (keyof T)[] = uniq([
 			...memberData.methodNames,
-			...appliedOptions.additionalMethodsToMock
+			...appliedOptions.additionalMethodsToMock,
+			...abstractMembers.methods
 		]);
-
-		const mock = isEmpty(allMethodsToMock)
-			? ({} as T)
-			: jasmine.createSpyObj<T>(
-				ctor.prototype.constructor.name,
-				allMethodsToMock as jasmine.SpyObjMethodNames<T>
+		const propertiesToMock = appliedOptions.ignoreAllProperties
+			? []
+			: uniqBy(
+				[...memberData.definedPropertiesData, ...this.getDeclaredPropertiesData(abstractMembers)],
+				(propertyData) => propertyData.propertyName
+			).filter(
+				(propertyData) =>
+					!appliedOptions.ignoredProperties.includes(propertyData.propertyName)
 			);
 
+		const mock = this.createMock(
+			ctor.prototype.constructor.name,
+			allMethodsToMock,
+			propertiesToMock,
+			abstractMembers.observables,
+			appliedOptions.strict,
+			appliedOptions.statefulProperties
+		);
+
+		if (depth < this.maxDepth) {
+			this.addNestedMocks(mock, appliedOptions.nested, allMethodsToMock, appliedOptions.strict, depth);
+		}
+
+		return mock;
+	}
+
+	/**
+	 * Creates a mock for an interface or type alias, which has no runtime representation to discover members from.
+	 * The resulting mock has the same shape as one created by ``` mockClass ```.
+	 *
+	 * @example
+	 * const mock = autoMocker.mockInterface<IUserService>("IUserService", { methods: ["load"], getters: ["current"] });
+	 *
+	 * @param {string} name - The name of the mock, used in spy names and error messages.
+	 * @param {Partial<IMockInterfaceOptions<T>>} [options] - The members to mock.
+	 * @return {T} - The mock object.
+	 */
+	public mockInterface<T>(
+		name: string,
+		options?: Partial<IMockInterfaceOptions<T>>
+	): T {
+		const appliedOptions: IMockInterfaceOptions<T> = {
+			...mockMembersDefaults as IMockMembers<T>,
+			strict: this.strict,
+			...options
+		};
+
+		return this.createMock(
+			name,
+			uniq(appliedOptions.methods),
+			this.getDeclaredPropertiesData(appliedOptions),
+			appliedOptions.observables,
+			appliedOptions.strict
+		);
+	}
+
+	/**
+	 * Creates a spy for a standalone function, such as a callback or an injected function.
+	 * The spy works with every ``` with* ``` and ``` getCall* ``` method and returns undefined until it is configured.
+	 *
+	 * @example
+	 * const onSave = autoMocker.mockFunction<(value: string) => boolean>("onSave");
+	 * autoMocker.withReturnValue(onSave, true);
+	 *
+	 * @template F - The type of the function.
+	 * @param {string} name - The name of the spy, used in error messages.
+	 * @param {F} [original] - The function called by ``` withCallThrough ```.
+	 * @return {F} - The spy.
+	 */
+	public mockFunction<F extends (...args: any[]) => any>(name: string, original?: F): F {
+		const spy = this.spyAdapter.createSpy(name, original) as F;
+		this.registry.addSpy(spy, name, spy, name);
+		this.mockNames.set(spy, name);
+		if (this.strict) {
+			this.makeStrict(spy, name);
+		}
+		return spy;
+	}
+
+	/**
+	 * Replaces the static methods and static accessors of a class, including inherited ones, with spies.
+	 * Configure them like any other spy, e.g. ``` withReturnValue(DateUtils.now, date) ``` or ``` withReturnGetterValue(Config, "current", config) ```.
+	 *
+	 * The originals are put back at the end of the spec through the hook of ``` registerAutoMockerHooks ```,
+	 * which therefore needs the statics to be mocked in a ``` beforeEach ``` or spec rather than a ``` beforeAll ```.
+	 * With the Jasmine spy adapter, the spies are put back by Jasmine and the hook only removes the methods of
+	 * ``` additionalMethodsToMock ``` the class did not have.
+	 * Without the hook, a warning is logged and ``` restore ``` has to be called on the returned sandbox.
+	 *
+	 * @param {C} ctor - The class whose static members to mock.
+	 * @param {Partial<IMockStaticsOptions<C>>} [options] - The options for mocking the static members.
+	 * @return {MockSandbox} - A handle whose ``` restore ``` puts back the original static members.
+	 */
+	public mockStatics<C extends Function>(ctor: C, options?: Partial<IMockStaticsOptions<C>>): MockSandbox {
+		const appliedOptions = {
+			...mockStaticsOptionsDefaults as IMockStaticsOptions<C>,
+			strict: this.strict,
+			...options
+		};
+		const className = ctor.name;
+		const sandbox = new MockSandbox();
+		// The properties to restore after the spec: those the spy adapter does not restore itself
+		const sandboxAfterSpec = this.spyAdapter.restoresAfterSpec ? new MockSandbox() : sandbox;
+		const memberData = this.getStaticMemberData(ctor);
+		this.registry.register(ctor, className);
+		this.mockNames.set(ctor, className);
+
+		uniq([...memberData.methodNames, ...appliedOptions.additionalMethodsToMock]).forEach((methodName) => {
+			if (this.isSpyLike(ctor[methodName])) {
+				return;
+			}
+			const spyName = `${className}.${String(methodName)}`;
+			sandbox.record(ctor, methodName);
+			let spy: Function;
+			if (this.isFunction(ctor[methodName])) {
+				spy = this.spyAdapter.spyOnMethod(ctor, methodName);
+			} else {
+				sandboxAfterSpec.record(ctor, methodName);
+				spy = this.spyAdapter.createSpy(spyName);
+				Object.defineProperty(ctor, methodName, { value: spy, configurable: true, writable: true });
+			}
+			this.registry.addSpy(ctor, className, spy, spyName);
+			if (appliedOptions.strict) {
+				this.makeStrict(spy, spyName);
+			}
+		});
+
 		if (!appliedOptions.ignoreAllProperties) {
 			memberData.definedPropertiesData
-				.filter(
-					(propertyData) =>
-						!appliedOptions.ignoredProperties.includes(propertyData.propertyName)
-				)
+				.filter((propertyData) => !(appliedOptions.ignoredProperties as readonly (keyof C)[]).includes(propertyData.propertyName))
 				.forEach((propertyData) => {
-					this.addMockDefinedProperty<T>(mock, propertyData)
+					sandbox.record(ctor, propertyData.propertyName);
+					(["get", "set"] as Accessor[])
+						.filter((accessor) => accessor === "get" ? propertyData.hasGet : propertyData.hasSet)
+						.forEach((accessor) => {
+							const spyName = `${className}.${String(propertyData.propertyName)} (${accessor})`;
+							const spy = this.spyAdapter.spyOnAccessor(ctor, propertyData.propertyName, accessor);
+							this.registry.addSpy(ctor, className, spy, spyName);
+							if (appliedOptions.strict) {
+								this.makeStrict(spy, spyName);
+							}
+						});
 				});
 		}
 
-		return mock;
+		sandboxAfterSpec.restoreAfterSpec();
+		return sandbox;
+	}
+
+	/**
+	 * Creates a stand-in for a class, for code that instantiates its dependencies itself.
+	 * Every ``` new ``` on the stand-in returns a fresh ``` mockClass ``` instance, or one configured with ``` withConstructedInstances ```.
+	 *
+	 * @example
+	 * const Connection = autoMocker.mockConstructor(RealConnection);
+	 * const service = new Service(Connection);
+	 * service.connect("url");
+	 * autoMocker.withReturnValue(autoMocker.getConstructedInstance(Connection).isOpen, true);
+	 *
+	 * @param {Constructor<T>} ctor - The class to stand in for.
+	 * @param {Partial<IMockClassOptions<T>>} [options] - The options for mocking the created instances.
+	 * @return {Constructor<T>} - The stand-in constructor.
+	 */
+	public mockConstructor<T>(ctor: Constructor<T>, options?: Partial<IMockClassOptions<T>>): Constructor<T> {
+		const className = ctor.prototype.constructor.name;
+		const standIn = this.spyAdapter.createSpy(className);
+		const state: IMockedConstructorState<T> = { instances: [], configuredInstances: [] };
+		const mocker = this;
+		// A regular function, as the spy may call the fake with `new`
+		const construct = function (): T {
+			const instance = state.configuredInstances.length
+				? state.configuredInstances.shift()
+				: mocker.mockClass(ctor, options);
+			state.instances.push(instance);
+			return instance;
+		};
+		const applyConstruct = () => {
+			this.spyAdapter.callFake(standIn, construct);
+			this.behaviorRecorder.setBehaviorDescription(standIn, "creates mocks");
+		};
+
+		applyConstruct();
+		this.constructorStates.set(standIn, state);
+		this.registry.addSpy(standIn, className, standIn, className);
+		this.registry.setDefaultBehavior(standIn, applyConstruct);
+		this.mockNames.set(standIn, className);
+		return standIn as unknown as Constructor<T>;
+	}
+
+	/**
+	 * Sets the instances returned by the next instantiations of a stand-in constructor, in order.
+	 * Once they are used up, fresh mocks are created again.
+	 *
+	 * @param {Constructor<T>} standIn - The stand-in created by ``` mockConstructor ```.
+	 * @param {T[]} instances - The instances to return.
+	 * @return {void}
+	 */
+	public withConstructedInstances<T>(standIn: Constructor<T>, instances: T[]): void {
+		this.getConstructorState<T>(standIn, "withConstructedInstances").configuredInstances.push(...instances);
+	}
+
+	/**
+	 * Retrieves an instance created by a stand-in constructor.
+	 *
+	 * @param {Constructor<T>} standIn - The stand-in created by ``` mockConstructor ```.
+	 * @param {number} [index=0] - The index of the instantiation.
+	 * @return {T} - The instance.
+	 * @throws {ConstructedInstanceNotFoundError} - If the stand-in was not instantiated that many times.
+	 */
+	public getConstructedInstance<T>(standIn: Constructor<T>, index: number = 0): T {
+		const instances = this.getConstructorState<T>(standIn, "getConstructedInstance").instances;
+		if (index >= instances.length) {
+			throw new ConstructedInstanceNotFoundError(this.getMockName(standIn), instances.length, index);
+		}
+		return instances[index];
+	}
+
+	/**
+	 * Retrieves every instance created by a stand-in constructor, in order.
+	 *
+	 * @param {Constructor<T>} standIn - The stand-in created by ``` mockConstructor ```.
+	 * @return {T[]} - The instances.
+	 */
+	public getConstructedInstances<T>(standIn: Constructor<T>): T[] {
+		return [...this.getConstructorState<T>(standIn, "getConstructedInstances").instances];
+	}
+
+	/**
+	 * Retrieves the arguments a stand-in constructor was instantiated with.
+	 *
+	 * @param {Constructor<T>} standIn - The stand-in created by ``` mockConstructor ```.
+	 * @param {number} [index=0] - The index of the instantiation.
+	 * @return {any[]} - The constructor arguments, or an empty array if there is no such instantiation.
+	 */
+	public getConstructorArgs<C extends Constructor<any>>(standIn: C, index: number = 0): ConstructorParameters<C> | [] {
+		this.getConstructorState(standIn, "getConstructorArgs");
+		return (this.spyAdapter.getCalls(standIn)[index]?.args ?? []) as ConstructorParameters<C>;
+	}
+
+	/**
+	 * Spies on the methods and accessors of a real instance while keeping their real behavior,
+	 * stubbing only the listed members. Fields holding state are left untouched.
+	 *
+	 * @example
+	 * const service = autoMocker.partialMock(new OrderService(), { stub: ["send"] });
+	 * service.checkout(order); // runs the real checkout, but not the real send
+	 * expect(autoMocker.getCallCount(service.send)).toBe(1);
+	 *
+	 * @param {T} instance - The instance to spy on.
+	 * @param {Partial<IPartialMockOptions<T>>} [options] - The members to stub or call through.
+	 * @return {T} - The instance.
+	 * @throws {MemberNotSpiableError} - If a listed member is neither a method nor an accessor.
+	 */
+	public partialMock<T extends object>(instance: T, options?: Partial<IPartialMockOptions<T>>): T {
+		const stubbedMembers = options?.stub ?? [];
+		const objectName = instance.constructor.name;
+		const memberNames = options?.callThrough
+			? uniq([...stubbedMembers, ...options.callThrough])
+			: this.getInstancePropertyNames(instance) as (keyof T)[];
+		this.registry.register(instance, objectName);
+		this.mockNames.set(instance, objectName);
+
+		memberNames.forEach((memberName) => {
+			const callThrough = !stubbedMembers.includes(memberName);
+			const spies = this.spyOnMember(instance, memberName);
+			if (!spies.length && (!callThrough || options?.callThrough)) {
+				throw new MemberNotSpiableError("partialMock", `${objectName}.${String(memberName)}`);
+			}
+			spies.forEach(({ name, spy }) => {
+				this.registry.addSpy(instance, objectName, spy, `${objectName}.${name}`);
+				if (callThrough) {
+					this.spyAdapter.callThrough(spy);
+					this.registry.setDefaultBehavior(spy, () => this.spyAdapter.callThrough(spy));
+				}
+			});
+		});
+
+		return instance;
+	}
+
+	/**
+	 * Creates an instance of a class under test, passing a mock of each dependency to its constructor in order.
+	 *
+	 * @example
+	 * const { sut, mocks: [repository, logger] } = autoMocker.createSut(UserService, [Repository, Logger]);
+	 * const { sut, getMock } = autoMocker.createSut(ReportService, [
+	 *   HttpClient,
+	 *   { token: REPORT_CONFIG, value: { pageSize: 10 } },
+	 *   { token: STORAGE, type: LocalStorage }
+	 * ], [{ strict: true }]);
+	 *
+	 * @param {Constructor<TSut>} sutConstructor - The class under test.
+	 * @param {SutDependency[]} dependencies - The dependencies, in the order of the constructor parameters.
+	 * @param {SutOverrides} [overrides] - The options for mocking each dependency, in the same order. They take precedence over the options of a definition.
+	 * @returns {ISut<TSut, TDependencies>} - The instance and its mocks.
+	 * @throws {InvalidDependencyError} - If a definition has neither a type nor a value.
+	 */
+	public createSut<TSut, TDependencies extends readonly SutDependency[]>(
+		sutConstructor: Constructor<TSut>,
+		dependencies: readonly [...TDependencies],
+		overrides: SutOverrides<TDependencies> = [] as SutOverrides<TDependencies>
+	): ISut<TSut, TDependencies> {
+		const definitions: ISutDependencyDefinition<any>[] = dependencies.map((dependency: SutDependency) =>
+			this.isFunction(dependency) ? { token: dependency, type: dependency } : { token: dependency.type, ...dependency }
+		);
+		const mocks = definitions.map((definition, index) => {
+			if ("value" in definition) {
+				return definition.value;
+			}
+			if (!definition.type) {
+				throw new InvalidDependencyError(sutConstructor.name, index);
+			}
+			return this.mockClass(definition.type, { ...definition.options, ...overrides[index] });
+		});
+
+		return {
+			sut: new sutConstructor(...mocks),
+			mocks: mocks as SutMocks<TDependencies>,
+			getMock: (token: unknown) => {
+				const indexes = definitions
+					.map((definition, index) => definition.token === token ? index : -1)
+					.filter((index) => index >= 0);
+				if (!indexes.length) {
+					throw new DependencyNotFoundError(sutConstructor.name, formatValue(token));
+				}
+				if (indexes.length > 1) {
+					throw new AmbiguousDependencyError(sutConstructor.name, formatValue(token), indexes);
+				}
+				return mocks[indexes[0]];
+			}
+		};
 	}
 
 	/**
 	 * Mocks an object by replacing its properties and methods with mock implementations.
+	 * Functions cannot be replaced in place, so only their own properties are mocked; use ``` mockFunction ``` to mock a function itself.
+	 *
+	 * Self-referencing objects are mocked once, and references back to them are kept.
+	 *
+	 * @example
+	 * autoMocker.mock("config", config, { include: ["config.http.*"], exclude: ["config.http.agent"], methods: "callThrough" });
 	 *
 	 * @param {string} objectName - The name of the object to mock.
 	 * @param {T} objectToMock - The object to mock.
-	 * @param {number} [maxDepth] - The maximum depth to traverse when mocking nested objects. Defaults to the maximum depth defined in the MockingService instance.
+	 * @param {number | Partial<IMockOptions>} [options] - The options for mocking the object, or the maximum depth to traverse when mocking nested objects. Defaults to the options defined in the AutoMocker instance.
 	 *
-	 * @return {void}
+	 * @return {MockSandbox} - A handle whose ``` restore ``` puts back every field, method and accessor that was replaced, including those of nested objects, and whose ``` seed ``` is the seed the values were generated with.
 	 */
-	public mock<T extends {}>(objectName: string, objectToMock: T, maxDepth?: number): void {
+	public mock<T extends {}>(objectName: string, objectToMock: T, options?: number | Partial<IMockOptions>): MockSandbox {
+		const appliedOptions: Partial<IMockOptions> = typeof options === "number" ? { maxDepth: options } : options || {};
+		const traversal = this.createTraversal(appliedOptions);
 		/* istanbul ignore else */
-		if (!!objectToMock && this.isObject(objectToMock) || /* istanbul ignore next */ this.isFunction(objectToMock)) {
-			this.mockObject(objectName, objectToMock, 0, maxDepth || this.maxDepth);
+		if (!!objectToMock && this.isObject(objectToMock) || this.isFunction(objectToMock)) {
+			this.mockNames.set(objectToMock as object, objectName);
+			this.mockObject(objectName, objectToMock, 0, traversal);
 		}
+		return traversal.sandbox;
+	}
+
+	/**
+	 * Defines a factory of test data that generates values with the seed and the value generators of this AutoMocker.
+	 *
+	 * @example
+	 * const userFactory = autoMocker.defineFactory<IUser>({ id: generated(""), name: "Ada" }, { name: "user" });
+	 *
+	 * @param {FactoryDefinition<T>} definition - The default values of the fields.
+	 * @param {Partial<IFactoryOptions>} [options] - The options of the factory. The seed and the value generators default to those of the AutoMocker.
+	 * @returns {Factory<T>} - The factory.
+	 */
+	public defineFactory<T>(definition: FactoryDefinition<T>, options: Partial<IFactoryOptions> = {}): Factory<T> {
+		return defineFactory(definition, { seed: this.seed, valueGenerators: this.valueGenerators, ...options });
+	}
+
+	/**
+	 * Starts a fluent builder for configuring many spies on one mock.
+	 * Spy names used in error messages are inferred from the mock.
+	 *
+	 * @example
+	 * autoMocker.setup(mock).method("load").returns(value).property("isReady").returns(true);
+	 *
+	 * @template T - The type of the mock.
+	 * @param {T} mock - The mock to configure.
+	 * @returns {MockSetup<T>} - The builder for the mock.
+	 */
+	public setup<T>(mock: T): MockSetup<T> {
+		return new MockSetup(this, mock, this.getMockName(mock));
 	}
 
 	/**
@@ -162,36 +1023,36 @@ export class AutoMocker {
 		spyName?: string
 	): void {
 		if (this.isSpyLike(spy)) {
-			spy.and.callFake(fakeFunction);
+			this.spyAdapter.callFake(spy, fakeFunction);
 			return;
 		}
-		this.throwNotASpyError('withCallFake', spyName);
+		this.throwNotASpyError('withCallFake', spyName, spy);
 	}
 
 	/**
 	 * Sets up a spy function to return specific values based on the first argument.
 	 *
 	 * @param {Function} spy - The spy function to set up.
-	 * @param {Object} returnMap - An object that maps first argument values to return values.
-	 * @param {any} defaultReturn - The default return value if the first argument does not have a mapping.
+	 * @param {FirstArgReturnMap} returnMap - An object that maps first argument values to return values, or a list of [argument or matcher, return value] pairs.
+	 * @param {any | UnmatchedArgumentsFallback} defaultReturn - The default return value if the first argument does not have a mapping, or the fallback to apply.
 	 * @param {string} [spyName] - The name of the spy function for error messaging purposes.
 	 * @returns {void}
 	 */
 	public withFirstArgMappedReturn<T>(
-		spy: (arg1: string | number, ...args: any[]) => T,
-		returnMap: Record<string | number, T>,
-		defaultReturn: T = undefined,
+		spy: (arg1: any, ...args: any[]) => T,
+		returnMap: FirstArgReturnMap<T>,
+		defaultReturn: T | UnmatchedArgumentsFallback = undefined,
 		spyName?: string
 	): void {
 		if (this.isSpyLike(spy)) {
-			spy.and.callFake((key) =>
-			Object.prototype.hasOwnProperty.call(returnMap, key)
-				? returnMap[key]
-				: defaultReturn
-			)
+			this.spyAdapter.callFake(
+				spy,
+				this.createFirstArgMappedFake(spy, returnMap, defaultReturn, spyName, (value) => value)
+			);
+			this.behaviorRecorder.setBehaviorDescription(spy, "returns values mapped by the first argument");
 			return;
 		}
-		this.throwNotASpyError('withFirstArgMappedReturn', spyName)
+		this.throwNotASpyError('withFirstArgMappedReturn', spyName, spy)
 	}
 
 	/**
@@ -204,10 +1065,10 @@ export class AutoMocker {
 	 */
 	public withCallThrough(spy: Function, spyName?: string): void {
 		if (this.isSpyLike(spy)) {
-			spy.and.callThrough();
+			this.spyAdapter.callThrough(spy);
 			return;
 		}
-		this.throwNotASpyError('withCallThrough', spyName);
+		this.throwNotASpyError('withCallThrough', spyName, spy);
 	}
 
 	/**
@@ -221,31 +1082,65 @@ export class AutoMocker {
 	 */
 	public withReturnValue<T>(spy: (...args: any[]) => T, returnValue: T, spyName?: string): void {
 		if (this.isSpyLike(spy)) {
-			spy.and.returnValue(returnValue);
+			this.spyAdapter.returnValue(spy, returnValue);
 			return;
 		}
-		this.throwNotASpyError('withReturnValue', spyName);
+		this.throwNotASpyError('withReturnValue', spyName, spy);
 	}
 
 	/**
 	 * Sets up a spy to return a specified value for a given set of arguments.
 	 *
 	 * @param {Function} spy - The spy function to set up.
-	 * @param {Array} args - An array of arguments to be used when calling the spy function.
+	 * @param {Array} args - An array of arguments, or argument matchers, to be used when calling the spy function.
 	 * @param {any} returnValue - The value to be returned when the spy function is called with the specified arguments.
 	 * @param {string} [spyName] - An optional name for the spy function.
 	 * @returns {void}
 	 */
 	public withReturnForArguments<TFunction extends (...args: any[]) => any>(
 		spy: TFunction,
-		args: [...Parameters<TFunction>],
+		args: ArgumentsOrMatchers<[...Parameters<TFunction>]>,
 		returnValue: ReturnType<TFunction>,
 		spyName?: string
 	): void {
 		if (!this.isSpyLike(spy)) {
-			this.throwNotASpyError('withReturnForArguments', spyName);
+			this.throwNotASpyError('withReturnForArguments', spyName, spy);
+		}
+		const registered = this.registeredArguments.get(spy) || [];
+		this.registeredArguments.set(spy, [...registered, args]);
+		this.spyAdapter.returnValueForArguments(spy, args, returnValue);
+	}
+
+	/**
+	 * Sets what a spy configured through ``` withReturnForArguments ``` does when it is called with arguments that match nothing.
+	 *
+	 * @param {Function} spy - The spy function to set up.
+	 * @param {UnmatchedArgumentsFallback} fallback - Return a default value, call through, or throw an error listing the registered arguments.
+	 * @param {string} [spyName] - An optional name for the spy function.
+	 * @returns {void}
+	 */
+	public withUnmatchedArgumentsFallback(
+		spy: Function,
+		fallback: UnmatchedArgumentsFallback,
+		spyName?: string
+	): void {
+		if (!this.isSpyLike(spy)) {
+			this.throwNotASpyError('withUnmatchedArgumentsFallback', spyName, spy);
+		}
+		switch (fallback.kind) {
+			case "returnValue":
+				this.spyAdapter.returnValue(spy, fallback.value);
+				break;
+			case "callThrough":
+				this.spyAdapter.callThrough(spy);
+				break;
+			case "throwError":
+				this.spyAdapter.callFake(spy, (...args: any[]) => {
+					throw new UnmatchedArgumentsError(this.resolveSpyName(spy, spyName), args, this.registeredArguments.get(spy) || []);
+				});
+				this.behaviorRecorder.setBehaviorDescription(spy, "throws for unmatched arguments");
+				break;
 		}
-		spy.withArgs(...args).and.returnValue(returnValue);
 	}
 
 	/**
@@ -262,11 +1157,11 @@ export class AutoMocker {
 		spyName?: string
 	): void {
 		if (this.isSpyLike(spy)) {
-			spy.and.returnValues(...returnValues);
+			this.spyAdapter.returnValues(spy, returnValues);
 			return;
 		}
 
-		this.throwNotASpyError('withReturnValues', spyName);
+		this.throwNotASpyError('withReturnValues', spyName, spy);
 	}
 
 	/**
@@ -277,11 +1172,11 @@ export class AutoMocker {
 	 * @param {string} [spyName] - The name of the*/
 	public withThrows(spy: Function, message?: string, spyName?: string): void {
 		if (this.isSpyLike(spy)) {
-			spy.and.throwError(message);
+			this.spyAdapter.throwError(spy, message);
 			return;
 		}
 
-		this.throwNotASpyError('withThrows', spyName);
+		this.throwNotASpyError('withThrows', spyName, spy);
 	}
 
 	/**
@@ -293,11 +1188,112 @@ export class AutoMocker {
 	 */
 	public resetSpy(spy: Function, spyName?: string): void {
 		if (this.isSpyLike(spy)) {
-			spy.calls.reset();
+			this.spyAdapter.resetCalls(spy);
+			this.verifiedCalls.delete(spy);
 			return;
 		}
 
-		this.throwNotASpyError('resetSpy', spyName);
+		this.throwNotASpyError('resetSpy', spyName, spy);
+	}
+
+	/**
+	 * Clears the recorded calls of every spy created by this AutoMocker. Configured behavior is kept.
+	 * Useful to reuse mocks created in ``` beforeAll ``` across specs.
+	 *
+	 * @returns {void}
+	 */
+	public resetAll(): void {
+		this.registry.getAllSpies().forEach((spy) => {
+			this.spyAdapter.resetCalls(spy);
+			this.verifiedCalls.delete(spy);
+		});
+	}
+
+	/**
+	 * Clears the recorded calls and the configured behavior of every spy created by this AutoMocker.
+	 * Spies go back to the behavior they were created with, e.g. strict spies throw again,
+	 * and observable properties replaced by the AutoMockerPlus helpers get their previous value back.
+	 *
+	 * @returns {void}
+	 */
+	public resetAllBehaviors(): void {
+		this.registry.getAllSpies().forEach((spy) => {
+			this.spyAdapter.resetCalls(spy);
+			this.spyAdapter.resetBehavior(spy);
+			this.registeredArguments.delete(spy);
+			this.verifiedCalls.delete(spy);
+			this.registry.applyDefaultBehavior(spy);
+		});
+		this.registry.restoreReplacedProperties();
+	}
+
+	/**
+	 * Forgets the mocks created so far, so this AutoMocker no longer keeps them alive
+	 * and ``` resetAll ```, ``` resetAllBehaviors ``` and ``` getRegisteredMocks ``` no longer see them.
+	 * Call it in an ``` afterEach ``` when an AutoMocker outlives the spec its mocks were created in;
+	 * ``` defaultAutoMockerInstance ``` does so on its own.
+	 *
+	 * @returns {void}
+	 */
+	public clearRegistry(): void {
+		this.registry.clear();
+	}
+
+	/**
+	 * Retrieves the mocks created by this AutoMocker through ``` mockClass ```, ``` mockInterface ``` and ``` mock ```.
+	 *
+	 * @param {string} [name] - Only return the mocks created with this class or object name.
+	 * @returns {IRegisteredMock[]} - The mocks with their spies, in the order they were created.
+	 */
+	public getRegisteredMocks(name?: string): IRegisteredMock[] {
+		const mocks = this.registry.getMocks();
+		return name === undefined ? mocks : mocks.filter((registeredMock) => registeredMock.name === name);
+	}
+
+	/**
+	 * Describes a mock in a compact, human-readable form: every spied method and accessor,
+	 * its configured behavior and its recorded calls.
+	 *
+	 * @example
+	 * console.log(autoMocker.describeMock(repository));
+	 * // Repository {
+	 * //   load: returns "loaded"; returns "two" for (2); called 2 times: (1), (2)
+	 * //   isReady (get): not configured; never called
+	 * // }
+	 *
+	 * @param {T} mock - The mock, or any object with spies.
+	 * @returns {string} - The description.
+	 */
+	public describeMock<T>(mock: T): string {
+		const members = this.getSpiedMembers(mock).map(({ name, spy }): IMockMemberDescription => ({
+			name,
+			behavior: this.behaviorRecorder.getBehaviorDescription(spy),
+			calls: this.spyAdapter.getCalls(spy)
+		}));
+		return formatMockDescription(this.getMockName(mock), members);
+	}
+
+	/**
+	 * Registers a Jasmine custom object formatter that prints the mocks created by this AutoMocker with ``` describeMock ```,
+	 * so failure messages show them in a compact form instead of their raw structure.
+	 * Like every Jasmine custom object formatter, it has to be registered in a ``` beforeEach ```, ``` beforeAll ``` or spec.
+	 *
+	 * @returns {void}
+	 */
+	public registerJasmineMockFormatter(): void {
+		jasmine.addCustomObjectFormatter((value: unknown) =>
+			this.registry.has(value) ? this.describeMock(value) : undefined
+		);
+	}
+
+	/**
+	 * Retrieves the spies created by this AutoMocker for a mock.
+	 *
+	 * @param {T} mock - The mock.
+	 * @returns {Function[]} - The spies, or an empty array if the mock was not created by this AutoMocker.
+	 */
+	public getRegisteredSpies<T>(mock: T): Function[] {
+		return this.isObject(mock) || this.isFunction(mock) ? this.registry.getSpies(mock as unknown as object) : [];
 	}
 
 	/**
@@ -318,7 +1314,7 @@ export class AutoMocker {
 		fakeFunction: (params: any[]) => any,
 		spyName?: string
 	): void {
-		this.withCallFake(this.getPropertyAccessorSpy(obj, key, accessor), fakeFunction, spyName);
+		this.withCallFake(this.getAccessorSpy('withCallAccessorFake', obj, key, accessor), fakeFunction, spyName);
 	}
 
 	/**
@@ -337,7 +1333,7 @@ export class AutoMocker {
 		accessor: Accessor,
 		spyName?: string
 	): void {
-		this.withCallThrough(this.getPropertyAccessorSpy(obj, key, accessor), spyName);
+		this.withCallThrough(this.getAccessorSpy('withCallAccessorThrough', obj, key, accessor), spyName);
 	}
 
 	/**
@@ -355,7 +1351,7 @@ export class AutoMocker {
 		returnValue: T[K],
 		spyName?: string
 	): void {
-		this.withReturnValue(this.getPropertyAccessorSpy(obj, key, "get"), returnValue, spyName);
+		this.withReturnValue(this.getAccessorSpy('withReturnGetterValue', obj, key, "get"), returnValue, spyName);
 	}
 
 	/**
@@ -373,94 +1369,568 @@ export class AutoMocker {
 		returnValues: T[K][],
 		spyName?: string
 	): void {
-		this.withReturnValues(this.getPropertyAccessorSpy(obj, key, "get"), returnValues, spyName);
+		this.withReturnValues(this.getAccessorSpy('withReturnGetterValues', obj, key, "get"), returnValues, spyName);
+	}
+
+	/**
+	 * Sets up an accessor to throw an error.
+	 *
+	 * @param {T} obj - The object on which to set up the spy.
+	 * @param {K} key - The key of the property on which to execute the accessor function.
+	 * @param {Accessor} [accessor] - An optional function that accesses the given property on the object.
+	 * @param {string} [message] - An optional error message to be thrown if the accessor fails.
+	 * @param {string} [spyName] - An optional name for the spy function that represents the accessor.
+	 * @returns {void}
+	 */
+	public withAccessorThrows<T, K extends keyof T>(
+		obj: T,
+		key: K,
+		accessor?: Accessor,
+		message?: string,
+		spyName?: string
+	): void {
+		this.withThrows(this.getAccessorSpy('withAccessorThrows', obj, key, accessor), message, spyName);
+	}
+
+	/**
+	 * Resets the accessor spy for a given object and key.
+	 *
+	 * @param {Object} obj - The object to reset the spy for.
+	 * @param {string} key - The key of the property to reset the spy for.
+	 * @param {Accessor} [accessor] - The accessor type of the property. Defaults to undefined.
+	 * @param {string} [spyName] - The name of the spy to reset. Defaults to undefined.
+	 * @returns {void}
+	 */
+	public resetAccessorSpy<T, K extends keyof T>(
+		obj: T,
+		key: K,
+		accessor?: Accessor,
+		spyName?: string
+	): void {
+		this.resetSpy(this.getAccessorSpy('resetAccessorSpy', obj, key, accessor), spyName);
+	}
+
+	/**
+	 * Returns the spy for the specified property accessor of an object, so its calls can be inspected like method calls.
+	 * If the object or its prototype chain does not contain the specified property, null is returned.
+	 *
+	 * @example
+	 * const setter = autoMocker.getPropertyAccessorSpy(mock, "limit", "set");
+	 * expect(autoMocker.getLastCallArgs(setter)).toEqual([5]);
+	 *
+	 * @param {T} obj - The object to inspect.
+	 * @param {K} key - The key of the property.
+	 * @param {Accessor} accessor - The type of accessor to spy on (e.g., "get" or "set").
+	 * @returns {Function|null} - The spy for the specified property accessor or null if not found.
+	 */
+	public getPropertyAccessorSpy<T, K extends keyof T>(obj: T, key: K, accessor: "get"): () => T[K];
+	public getPropertyAccessorSpy<T, K extends keyof T>(obj: T, key: K, accessor: "set"): (value: T[K]) => void;
+	public getPropertyAccessorSpy<T>(obj: T, key: keyof T, accessor: Accessor): (...args: any[]) => any;
+	public getPropertyAccessorSpy<T>(
+		obj: T,
+		key: keyof T,
+		accessor: Accessor
+	): (...args: any[]) => any {
+		let descriptor: PropertyDescriptor;
+		do {
+			descriptor = Object.getOwnPropertyDescriptor(obj, key);
+		} while (!descriptor && (obj = Object.getPrototypeOf(obj)));
+
+		if (!descriptor) {
+			return null;
+		}
+
+		return descriptor[accessor];
+	}
+
+	/**
+	 * Retrieves the arguments for a specific call made to a spy function.
+	 *
+	 * @param {TFunction} spy - The spy function.
+	 * @param {number} callIndex - The index of the call for which to retrieve the arguments. Default value is 0.
+	 * @param {string} [spyName] - The name of the spy function. Optional parameter used for error reporting.
+	 * @returns {Array} - An array containing the arguments of the specified call.
+	 */
+	public getCallArgs<TFunction extends (...args: any[]) => any>(
+		spy: TFunction,
+		callIndex: number = 0,
+		spyName?: string
+	): Parameters<TFunction> {
+		if (this.isSpyLike(spy)) {
+			const call = this.spyAdapter.getCalls(spy)[callIndex];
+			return (call ? call.args : []) as Parameters<TFunction>;
+		}
+
+		this.throwNotASpyError('getCallArgs', spyName, spy);
+	}
+
+	/**
+	 * Retrieves the number of times a spy has been called.
+	 *
+	 * @param {Function} spy - The spy function to get the call count for.
+	 * @param {string} [spyName] - Optional name for the spy function.
+	 * @returns {number} - The number of times the spy function has been called.
+	 */
+	public getCallCount<TFunction extends (...args: any) => any>(
+		spy: TFunction,
+		spyName?: string
+	): number {
+		if (!this.isSpyLike(spy)) {
+			this.throwNotASpyError('getCallCount', spyName, spy);
+		}
+
+		return this.spyAdapter.getCalls(spy).length;
+	}
+
+	/**
+	 * Retrieves every call made to a spy, with its arguments, ``` this ``` context and outcome.
+	 *
+	 * @param {TFunction} spy - The spy function.
+	 * @param {string} [spyName] - The name of the spy function. Optional parameter used for error reporting.
+	 * @returns {ISpyCall<TFunction>[]} - The calls, in the order they were made.
+	 */
+	public getCalls<TFunction extends (...args: any[]) => any>(
+		spy: TFunction,
+		spyName?: string
+	): ISpyCall<TFunction>[] {
+		if (!this.isSpyLike(spy)) {
+			this.throwNotASpyError('getCalls', spyName, spy);
+		}
+
+		return [...this.spyAdapter.getCalls(spy)] as ISpyCall<TFunction>[];
+	}
+
+	/**
+	 * Retrieves the most recent call made to a spy.
+	 *
+	 * @param {TFunction} spy - The spy function.
+	 * @param {string} [spyName] - The name of the spy function. Optional parameter used for error reporting.
+	 * @returns {ISpyCall<TFunction> | undefined} - The last call, or undefined if the spy was not called.
+	 */
+	public getLastCall<TFunction extends (...args: any[]) => any>(
+		spy: TFunction,
+		spyName?: string
+	): ISpyCall<TFunction> | undefined {
+		const calls = this.getCalls(spy, spyName);
+		return calls[calls.length - 1];
+	}
+
+	/**
+	 * Retrieves the arguments of the most recent call made to a spy.
+	 *
+	 * @param {TFunction} spy - The spy function.
+	 * @param {string} [spyName] - The name of the spy function. Optional parameter used for error reporting.
+	 * @returns {Array} - The arguments of the last call, or an empty array if the spy was not called.
+	 */
+	public getLastCallArgs<TFunction extends (...args: any[]) => any>(
+		spy: TFunction,
+		spyName?: string
+	): Parameters<TFunction> {
+		return this.getLastCall(spy, spyName)?.args || [] as Parameters<TFunction>;
+	}
+
+	/**
+	 * Retrieves the arguments of every call made to a spy.
+	 *
+	 * @param {TFunction} spy - The spy function.
+	 * @param {string} [spyName] - The name of the spy function. Optional parameter used for error reporting.
+	 * @returns {Array[]} - The arguments of each call, in the order the calls were made.
+	 */
+	public getAllCallArgs<TFunction extends (...args: any[]) => any>(
+		spy: TFunction,
+		spyName?: string
+	): Parameters<TFunction>[] {
+		return this.getCalls(spy, spyName).map((call) => call.args);
+	}
+
+	/**
+	 * Retrieves the ``` this ``` context a call to a spy ran with.
+	 *
+	 * @param {TFunction} spy - The spy function.
+	 * @param {number} [callIndex=0] - The index of the call.
+	 * @param {string} [spyName] - The name of the spy function. Optional parameter used for error reporting.
+	 * @returns {any} - The ``` this ``` context of the call.
+	 * @throws {CallNotFoundError} - If the spy was not called that many times.
+	 */
+	public getCallThis<TFunction extends (...args: any[]) => any>(
+		spy: TFunction,
+		callIndex: number = 0,
+		spyName?: string
+	): any {
+		return this.getCallAt(spy, callIndex, 'getCallThis', spyName).thisArg;
+	}
+
+	/**
+	 * Retrieves the value a call to a spy returned, e.g. the result of the original function for call-through spies.
+	 *
+	 * @param {TFunction} spy - The spy function.
+	 * @param {number} [callIndex=0] - The index of the call.
+	 * @param {string} [spyName] - The name of the spy function. Optional parameter used for error reporting.
+	 * @returns {ReturnType<TFunction>} - The returned value.
+	 * @throws {CallNotFoundError | VerificationError} - If the spy was not called that many times, or the call threw.
+	 */
+	public getCallReturnValue<TFunction extends (...args: any[]) => any>(
+		spy: TFunction,
+		callIndex: number = 0,
+		spyName?: string
+	): ReturnType<TFunction> {
+		const call = this.getCallAt(spy, callIndex, 'getCallReturnValue', spyName);
+		if (call.threw) {
+			throw new VerificationError(
+				`getCallReturnValue: call ${callIndex} of ${this.resolveSpyName(spy, spyName)} threw instead of returning`
+				+ (call.error === undefined ? "." : `: ${formatValue(call.error)}`),
+				this.seed
+			);
+		}
+		return call.returnValue;
+	}
+
+	/**
+	 * Retrieves the error a call to a spy threw, e.g. the error of the original function for call-through spies.
+	 * Jasmine does not record thrown errors, so under Jasmine this returns undefined for calls that threw.
+	 *
+	 * @param {TFunction} spy - The spy function.
+	 * @param {number} [callIndex=0] - The index of the call.
+	 * @param {string} [spyName] - The name of the spy function. Optional parameter used for error reporting.
+	 * @returns {any} - The thrown error.
+	 * @throws {CallNotFoundError | VerificationError} - If the spy was not called that many times, or the call returned.
+	 */
+	public getCallError<TFunction extends (...args: any[]) => any>(
+		spy: TFunction,
+		callIndex: number = 0,
+		spyName?: string
+	): any {
+		const call = this.getCallAt(spy, callIndex, 'getCallError', spyName);
+		if (!call.threw) {
+			throw new VerificationError(
+				`getCallError: call ${callIndex} of ${this.resolveSpyName(spy, spyName)} returned ${formatValue(call.returnValue)} instead of throwing.`,
+				this.seed
+			);
+		}
+		return call.error;
+	}
+
+	/**
+	 * Verifies that spies, possibly from different mocks, were called in the given order.
+	 * Each step is either a spy or an expectation with the arguments the call should have.
+	 * Unrelated calls in between the expected ones are allowed.
+	 *
+	 * @example
+	 * autoMocker.verifyInOrder(repo.save, { spy: notifier.send, args: ["saved"] });
+	 *
+	 * @param {Array<Function | IOrderedCallExpectation>} steps - The expected calls, in order.
+	 * @returns {void}
+	 * @throws {VerificationError} - If the calls were not made in the given order. The message lists the actual interleaved call timeline.
+	 */
+	public verifyInOrder(...steps: (Function | IOrderedCallExpectation<any>)[]): void {
+		const expectations = steps.map((step): IOrderedCallExpectation =>
+			this.isFunction(step) ? { spy: step as (...args: any[]) => any } : step
+		);
+		expectations.forEach((expectation) => {
+			if (!this.isSpyLike(expectation.spy)) {
+				this.throwNotASpyError('verifyInOrder', expectation.spyName, expectation.spy);
+			}
+		});
+		verifyCallOrder(this.spyAdapter, expectations.map((expectation) => ({
+			...expectation,
+			spyName: this.resolveSpyName(expectation.spy, expectation.spyName)
+		})), this.seed);
+	}
+
+	/**
+	 * Verifies how many times a spy was called, optionally only counting calls with the given arguments.
+	 * The counted calls are marked as verified for ``` verifyNoMoreInteractions ```.
+	 *
+	 * @example
+	 * autoMocker.verify(repository.load, times(2));
+	 * autoMocker.verify(repository.save, atLeast(1), anyOfType(String));
+	 * autoMocker.verify(notifier.send, never());
+	 *
+	 * @param {TFunction} spy - The spy to verify.
+	 * @param {VerificationMode} mode - The expected number of calls.
+	 * @param {...ArgumentsOrMatchers} args - The arguments, or argument matchers, of the calls to count. Every call is counted when omitted.
+	 * @returns {void}
+	 * @throws {VerificationError} - If the number of matching calls is not as expected. The message lists the recorded calls of the spy.
+	 */
+	public verify<TFunction extends (...args: any[]) => any>(
+		spy: TFunction,
+		mode: VerificationMode,
+		...args: ArgumentsOrMatchers<[...Parameters<TFunction>]> | []
+	): void {
+		if (!this.isSpyLike(spy)) {
+			this.throwNotASpyError('verify', undefined, spy);
+		}
+
+		const calls = this.spyAdapter.getCalls(spy);
+		const matchingCalls = args.length ? calls.filter((call) => argumentMatches(args, call.args)) : calls;
+		if (!mode.matches(matchingCalls.length)) {
+			const spyName = this.resolveSpyName(spy);
+			throw new VerificationError(createVerificationFailureMessage(
+				args.length ? `${spyName}${formatArguments(args)}` : spyName,
+				mode,
+				matchingCalls.length,
+				calls
+			), this.seed);
+		}
+
+		const verifiedCalls = this.verifiedCalls.get(spy) || new Set<number>();
+		matchingCalls.forEach((call) => verifiedCalls.add(call.invocationOrder));
+		this.verifiedCalls.set(spy, verifiedCalls);
+	}
+
+	/**
+	 * Verifies that every call received by the given mocks, including getter and setter calls,
+	 * was accounted for by an earlier ``` verify ```.
+	 *
+	 * @example
+	 * autoMocker.verify(repository.load, times(1), 1);
+	 * autoMocker.verifyNoMoreInteractions(repository);
+	 *
+	 * @param {...object} mocks - The mocks created by ``` mockClass ```, ``` mock ``` or a similar method.
+	 * @returns {void}
+	 * @throws {VerificationError} - If a mock received a call that was not verified. The message lists the unverified calls.
+	 */
+	public verifyNoMoreInteractions(...mocks: object[]): void {
+		mocks.forEach((mock) => {
+			const unverifiedCalls: IUnverifiedCall[] = [];
+			this.getSpiedMembers(mock).forEach(({ name, spy }) => {
+				const verifiedCalls = this.verifiedCalls.get(spy);
+				this.spyAdapter.getCalls(spy)
+					.filter((call) => !verifiedCalls?.has(call.invocationOrder))
+					.forEach((call) => unverifiedCalls.push({ name: `${this.getMockName(mock)}.${name}`, call }));
+			});
+			if (unverifiedCalls.length) {
+				unverifiedCalls.sort((a, b) => a.call.invocationOrder - b.call.invocationOrder);
+				throw new VerificationError(createUnverifiedCallsMessage(this.getMockName(mock), unverifiedCalls), this.seed);
+			}
+		});
 	}
 
 	/**
-	 * Sets up an accessor to throw an error.
+	 * Compares every call recorded on a mock, or on a list of spies, against a snapshot file stored next to the spec.
+	 * Calls are serialized in the order they were made, with the member name, the index of the call, its arguments
+	 * and, when the spy adapter recorded it, the returned value.
+	 * A missing snapshot is written, except on a CI server where it fails. Set the ``` UPDATE_SNAPSHOTS ``` environment variable to ``` 1 ```,
+	 * or pass ``` update: true ```, to rewrite existing snapshots. Snapshots need file system access and only work under Node.
 	 *
-	 * @param {T} obj - The object on which to set up the spy.
-	 * @param {K} key - The key of the property on which to execute the accessor function.
-	 * @param {Accessor} [accessor] - An optional function that accesses the given property on the object.
-	 * @param {string} [message] - An optional error message to be thrown if the accessor fails.
-	 * @param {string} [spyName] - An optional name for the spy function that represents the accessor.
+	 * @example
+	 * autoMocker.expectInteractionsToMatchSnapshot(repository, "loads-each-item");
+	 * // spec/__snapshots__/loads-each-item.snap:
+	 * // Repository.load #0: (1) => "one"
+	 * // Repository.isReady (get) #0: () => true
+	 *
+	 * @param {T | Function[]} mockOrSpies - The mock, or the spies, whose calls to compare.
+	 * @param {string} snapshotName - The name of the snapshot, used as its file name.
+	 * @param {IInteractionSnapshotOptions} [options] - Where the snapshot is stored and whether to update it.
 	 * @returns {void}
+	 * @throws {SnapshotMismatchError} - If the calls differ from the snapshot. The message contains a line diff of the snapshot and the recorded calls.
+	 * @throws {SnapshotMissingError} - If the snapshot does not exist on a CI server.
 	 */
-	public withAccessorThrows<T, K extends keyof T>(
-		obj: T,
-		key: K,
-		accessor?: Accessor,
-		message?: string,
-		spyName?: string
+	public expectInteractionsToMatchSnapshot<T>(
+		mockOrSpies: T | Function[],
+		snapshotName: string,
+		options: IInteractionSnapshotOptions = {}
 	): void {
-		this.withThrows(this.getPropertyAccessorSpy(obj, key, accessor), message, spyName);
+		const spies: ISnapshotSpy[] = Array.isArray(mockOrSpies)
+			? mockOrSpies.map((spy) => {
+				if (!this.isSpyLike(spy)) {
+					this.throwNotASpyError('expectInteractionsToMatchSnapshot', undefined, spy);
+				}
+				return { name: this.resolveSpyName(spy), calls: this.spyAdapter.getCalls(spy) };
+			})
+			: this.getSpiedMembers(mockOrSpies).map(({ name, spy }) => ({
+				name: `${this.getMockName(mockOrSpies)}.${name}`,
+				calls: this.spyAdapter.getCalls(spy)
+			}));
+		matchInteractionSnapshot(serializeInteractions(spies), snapshotName, options, this.seed);
 	}
 
 	/**
-	 * Resets the accessor spy for a given object and key.
+	 * Retrieves the spy of a property accessor.
 	 *
-	 * @param {Object} obj - The object to reset the spy for.
-	 * @param {string} key - The key of the property to reset the spy for.
-	 * @param {Accessor} [accessor] - The accessor type of the property. Defaults to undefined.
-	 * @param {string} [spyName] - The name of the spy to reset. Defaults to undefined.
-	 * @returns {void}
+	 * @param {string} caller - The name of the calling method, used in the error message.
+	 * @param {T} obj - The object that owns the property.
+	 * @param {keyof T} key - The name of the property.
+	 * @param {Accessor} accessor - The accessor.
+	 * @private
+	 * @returns {Function} - The accessor, which may not be a spy.
+	 * @throws {AccessorNotFoundError} - If the property does not have the accessor.
 	 */
-	public resetAccessorSpy<T, K extends keyof T>(
-		obj: T,
-		key: K,
-		accessor?: Accessor,
-		spyName?: string
-	): void {
-		this.resetSpy(this.getPropertyAccessorSpy(obj, key, accessor), spyName);
+	private getAccessorSpy<T>(caller: string, obj: T, key: keyof T, accessor: Accessor): (...args: any[]) => any {
+		const spy = this.getPropertyAccessorSpy(obj, key, accessor);
+		if (!spy) {
+			throw new AccessorNotFoundError(caller, `${this.getMockName(obj)}.${String(key)}`, accessor);
+		}
+		return spy;
 	}
 
 	/**
-	 * Retrieves the arguments for a specific call made to a spy function.
+	 * Retrieves a call made to a spy.
 	 *
-	 * @param {TFunction} spy - The spy function.
-	 * @param {number} callIndex - The index of the call for which to retrieve the arguments. Default value is 0.
-	 * @param {string} [spyName] - The name of the spy function. Optional parameter used for error reporting.
-	 * @returns {Array} - An array containing the arguments of the specified call.
+	 * @param {Function} spy - The spy function.
+	 * @param {number} callIndex - The index of the call.
+	 * @param {string} caller - The name of the calling method, used in error messages.
+	 * @param {string} [spyName] - The name of the spy function, used in error messages.
+	 * @private
+	 * @returns {ISpyCall} - The call.
+	 * @throws {NotASpyError | CallNotFoundError} - If the spy is not a spy, or was not called that many times.
 	 */
-	public getCallArgs<TFunction extends (...args: any[]) => any>(
+	private getCallAt<TFunction extends (...args: any[]) => any>(
 		spy: TFunction,
-		callIndex: number = 0,
+		callIndex: number,
+		caller: string,
 		spyName?: string
-	): Parameters<TFunction> {
-		if (this.isSpyLike(spy)) {
-			return spy.calls.argsFor(callIndex) as Parameters<TFunction>;
+	): ISpyCall<TFunction> {
+		const calls = this.getCalls(spy, spyName);
+		if (callIndex >= calls.length) {
+			throw new CallNotFoundError(caller, this.resolveSpyName(spy, spyName), callIndex, calls.length);
 		}
-
-		this.throwNotASpyError('getCallArgs', spyName);
+		return calls[callIndex];
 	}
 
 	/**
-	 * Retrieves the number of times a spy has been called.
+	 * Finds the spied methods and accessors of a mock, naming accessor spies after their accessor, e.g. ``` isReady (get) ```.
+	 * A spy passed as the mock is returned as a single member named ``` () ```.
 	 *
-	 * @param {Function} spy - The spy function to get the call count for.
-	 * @param {string} [spyName] - Optional name for the spy function.
-	 * @returns {number} - The number of times the spy function has been called.
+	 * @param {T} mock - The mock, or any object with spies.
+	 * @private
+	 * @returns {Array<{ name: string, spy: Function }>} - The spied members.
 	 */
-	public getCallCount<TFunction extends (...args: any) => any>(
-		spy: TFunction,
-		spyName?: string
-	): number {
-		if (!this.isSpyLike(spy)) {
-			this.throwNotASpyError('getCallCount', spyName);
+	private getSpiedMembers<T>(mock: T): { name: string, spy: Function }[] {
+		if (this.isSpyLike(mock)) {
+			return [{ name: "()", spy: mock as unknown as Function }];
 		}
 
-		return spy.calls.all().length;
+		const members: { name: string, spy: Function }[] = [];
+		this.getInstancePropertyNames(mock).forEach((key: keyof T & string) => {
+			let owner: any = mock;
+			let descriptor: PropertyDescriptor;
+			do {
+				descriptor = Object.getOwnPropertyDescriptor(owner, key);
+			} while (!descriptor && (owner = Object.getPrototypeOf(owner)));
+
+			if (this.isSpyLike(descriptor.value)) {
+				members.push({ name: key, spy: descriptor.value });
+			}
+			(["get", "set"] as Accessor[])
+				.filter((accessor) => this.isSpyLike(descriptor[accessor]))
+				.forEach((accessor) => members.push({ name: `${key} (${accessor})`, spy: descriptor[accessor] }));
+		});
+		return members;
+	}
+
+	/**
+	 * Creates a mock object with spies for the given members.
+	 *
+	 * @param {string} mockName - The name of the mock, used in spy names.
+	 * @param {ReadonlyArray<keyof T>} methodNames - The methods to mock.
+	 * @param {ReadonlyArray<IDefinedPropertyData<T>>} propertiesData - The getters and setters to mock.
+	 * @param {ReadonlyArray<keyof T>} observableNames - The observable properties to initialize.
+	 * @param {boolean} strict - Whether the spies should throw until they are configured.
+	 * @param {boolean | Partial<T>} [statefulProperties=false] - Whether the accessor spies share backing values, or the initial backing values.
+	 * @private
+	 * @returns {T} - The mock object.
+	 */
+	private createMock<T>(
+		mockName: string,
+		methodNames: readonly (keyof T)[],
+		propertiesData: readonly IDefinedPropertyData<T>[],
+		observableNames: readonly (keyof T)[],
+		strict: boolean,
+		statefulProperties: boolean | Partial<T> = false
+	): T {
+		const mock = {} as T;
+		this.registry.register(mock as unknown as object, mockName);
+		methodNames.forEach((methodName) => {
+			const spyName = `${mockName}.${String(methodName)}`;
+			const spy = this.spyAdapter.createSpy(spyName);
+			this.registry.addSpy(mock as unknown as object, mockName, spy, spyName);
+			if (strict) {
+				this.makeStrict(spy, spyName);
+			}
+			(mock[methodName] as any) = spy;
+		});
+		this.mockNames.set(mock as unknown as object, mockName);
+
+		const initialValues: Partial<T> = statefulProperties === true ? {} : statefulProperties || undefined;
+		propertiesData.forEach((propertyData) => {
+			this.addMockDefinedProperty<T>(mock, propertyData, mockName, strict, initialValues)
+		});
+
+		observableNames.forEach((observableName) => {
+			(mock[observableName] as any) = NEVER;
+		});
+
+		return mock;
+	}
+
+	/**
+	 * Creates the nested mocks of a mock and wires them up as the return values of their members.
+	 * Methods return the nested mock, getters return it and any other member is assigned it directly.
+	 * Nested mocks are strict when their parent is, unless their own options say otherwise.
+	 * The wiring is the default behavior of the members, so it survives ``` resetAllBehaviors ```.
+	 *
+	 * @param {T} mock - The mock to add the nested mocks to.
+	 * @param {NestedMocks<T>} nested - The classes of the nested mocks.
+	 * @param {ReadonlyArray<keyof T>} methodNames - The mocked methods of the mock.
+	 * @param {boolean} strict - Whether the mock is strict.
+	 * @param {number} depth - The depth of the mock.
+	 * @private
+	 * @returns {void}
+	 */
+	private addNestedMocks<T>(
+		mock: T,
+		nested: NestedMocks<T>,
+		methodNames: readonly (keyof T)[],
+		strict: boolean,
+		depth: number
+	): void {
+		const nestedMocks = new Map<PropertyKey, any>();
+		(Object.keys(nested) as (keyof T)[]).forEach((key) => {
+			const definition = nested[key];
+			const nestedMock = typeof definition === "function"
+				? this.mockClassAtDepth(definition, {strict}, depth + 1)
+				: this.mockClassAtDepth(definition.type, {strict, ...definition.options}, depth + 1);
+			nestedMocks.set(key, nestedMock);
+
+			const spy = methodNames.includes(key)
+				? mock[key] as unknown as Function
+				: this.getPropertyAccessorSpy(mock, key, "get");
+			if (spy) {
+				const applyNested = () => this.spyAdapter.returnValue(spy, nestedMock);
+				applyNested();
+				this.registry.setDefaultBehavior(spy, applyNested);
+			} else {
+				(mock[key] as any) = nestedMock;
+			}
+		});
+		this.nestedMocks.set(mock as unknown as object, nestedMocks);
+	}
+
+	/**
+	 * Converts declared getters and setters into defined property data.
+	 *
+	 * @param {IMockMembers<T>} members - The declared members.
+	 * @private
+	 * @returns {IDefinedPropertyData<T>[]} - The defined property data.
+	 */
+	private getDeclaredPropertiesData<T>(members: IMockMembers<T>): IDefinedPropertyData<T>[] {
+		return uniq([...members.getters, ...members.setters]).map((propertyName) => ({
+			propertyName,
+			hasGet: members.getters.includes(propertyName),
+			hasSet: members.setters.includes(propertyName)
+		}));
 	}
 
 	/**
 	 * Retrieves member data for the given constructor.
 	 *
 	 * @template T
-	 * @param {Constructor<T>} ctor - The constructor to retrieve member data for.
+	 * @param {Constructor<T> | AbstractConstructor<T>} ctor - The constructor to retrieve member data for.
 	 * @private
 	 * @returns {IMemberData<T>} The member data.
 	 */
-	private getMemberData<T>(ctor: Constructor<T>): IMemberData<T> {
+	private getMemberData<T>(ctor: Constructor<T> | AbstractConstructor<T>): IMemberData<T> {
 		const methodNames: (keyof T)[] = [];
 		const definedPropertiesData: IDefinedPropertyData<T>[] = [];
 
@@ -494,6 +1964,45 @@ export class AutoMocker {
 		};
 	}
 
+	/**
+	 * Retrieves the static member data of a class and its static inheritance chain.
+	 * Members redefined by a subclass take precedence over the ones they shadow.
+	 *
+	 * @param {C} ctor - The class to retrieve static member data for.
+	 * @private
+	 * @returns {IMemberData<C>} The static member data.
+	 */
+	private getStaticMemberData<C extends Function>(ctor: C): IMemberData<C> {
+		const methodNames: (keyof C)[] = [];
+		const definedPropertiesData: IDefinedPropertyData<C>[] = [];
+		const seenNames = new Set<keyof C>();
+
+		let currentConstructor: any = ctor;
+		while (currentConstructor && currentConstructor !== Function.prototype) {
+			(Object.getOwnPropertyNames(currentConstructor) as (keyof C)[]).forEach((memberName) => {
+				if (functionPropertyNames.includes(memberName) || seenNames.has(memberName)) {
+					return;
+				}
+				seenNames.add(memberName);
+
+				const propertyData = this.getDefinedPropertyData(currentConstructor, memberName);
+				if (propertyData && (propertyData.hasGet || propertyData.hasSet)) {
+					definedPropertiesData.push(propertyData);
+					return;
+				}
+				if (this.isFunction(currentConstructor[memberName])) {
+					methodNames.push(memberName);
+				}
+			});
+			currentConstructor = Object.getPrototypeOf(currentConstructor);
+		}
+
+		return {
+			methodNames,
+			definedPropertiesData
+		};
+	}
+
 	/**
 	 * Gets the defined property data of an object.
 	 *
@@ -521,17 +2030,108 @@ export class AutoMocker {
 	 *
 	 * @param {T} mock - The mock object.
 	 * @param {IDefinedPropertyData<T>} propertyData - The data for the property.
+	 * @param {string} className - The name of the mocked class.
+	 * @param {boolean} strict - Whether the accessor spies should throw until they are configured.
+	 * @param {Partial<T>} [initialValues] - The initial backing values when the accessor spies should be stateful.
 	 * @private
 	 * @returns {void}
 	 */
-	private addMockDefinedProperty<T>(mock: T, propertyData: IDefinedPropertyData<T>): void {
+	private addMockDefinedProperty<T>(
+		mock: T,
+		propertyData: IDefinedPropertyData<T>,
+		className: string,
+		strict: boolean,
+		initialValues?: Partial<T>
+	): void {
 		const attributes = {
 			get: propertyData.hasGet ? () => {} : /* istanbul ignore next */ undefined,
 			set: propertyData.hasSet ? () => {} : /* istanbul ignore next */ undefined,
 			configurable: true
 		};
 		Object.defineProperty(mock, propertyData.propertyName, attributes);
-		this.mockAsProperty(mock, propertyData.propertyName);
+		this.mockAsProperty(className, mock, propertyData.propertyName);
+
+		if (initialValues) {
+			this.makeStateful(mock, propertyData.propertyName, initialValues[propertyData.propertyName]);
+		} else if (strict) {
+			(["get", "set"] as Accessor[]).forEach((accessor) => {
+				const spy = this.getPropertyAccessorSpy(mock, propertyData.propertyName, accessor);
+				if (spy) {
+					this.makeStrict(spy, `${className}.${String(propertyData.propertyName)} (${accessor})`);
+				}
+			});
+		}
+	}
+
+	/**
+	 * Makes the getter spy of a property return the last value passed to its setter spy.
+	 * Resetting the behaviors of the spies sets the backing value back to its initial value.
+	 *
+	 * @param {T} mock - The mock object.
+	 * @param {keyof T} key - The name of the property.
+	 * @param {any} initialValue - The initial backing value.
+	 * @private
+	 * @returns {void}
+	 */
+	private makeStateful<T>(mock: T, key: keyof T, initialValue: T[keyof T]): void {
+		let value = initialValue;
+		const getter = this.getPropertyAccessorSpy(mock, key, "get");
+		const setter = this.getPropertyAccessorSpy(mock, key, "set");
+		const applyStateful = () => {
+			value = initialValue;
+			if (getter) {
+				this.spyAdapter.callFake(getter, () => value);
+				this.behaviorRecorder.setBehaviorDescription(getter, "returns the value last set");
+			}
+			if (setter) {
+				this.spyAdapter.callFake(setter, (newValue: T[keyof T]) => {
+					value = newValue;
+				});
+				this.behaviorRecorder.setBehaviorDescription(setter, "stores the value");
+			}
+		};
+
+		applyStateful();
+		[getter, setter].filter(Boolean).forEach((spy) => this.registry.setDefaultBehavior(spy, applyStateful));
+	}
+
+	/**
+	 * Makes a spy throw on every call until it is configured with another behavior.
+	 *
+	 * @param {Function} spy - The spy to make strict.
+	 * @param {string} spyName - The name of the spy, used in the error message.
+	 * @private
+	 * @returns {void}
+	 */
+	private makeStrict(spy: Function, spyName: string): void {
+		const applyStrict = () => {
+			this.spyAdapter.callFake(spy, (...args: any[]) => {
+				throw new UnconfiguredStrictSpyError(spyName, args, this.seed);
+			});
+			this.behaviorRecorder.setBehaviorDescription(spy, "strict, throws until configured");
+		};
+		applyStrict();
+		this.registry.setDefaultBehavior(spy, applyStrict);
+	}
+
+	/**
+	 * Creates the state for traversing one object graph with ``` mock ```.
+	 *
+	 * @param {Partial<IMockOptions>} options - The options passed to ``` mock ```.
+	 * @private
+	 * @returns {IMockTraversal} - The traversal state.
+	 */
+	private createTraversal(options: Partial<IMockOptions>): IMockTraversal {
+		const seed = options.seed ?? this.seed;
+		return {
+			maxDepth: options.maxDepth || this.maxDepth,
+			sandbox: new MockSandbox(seed),
+			random: new SeededRandom(seed),
+			filter: new PropertyPathFilter(options.include, options.exclude),
+			methods: options.methods ?? "stub",
+			replaceValues: { ...replacedValueTypesDefaults, ...options.replaceValues },
+			visited: new WeakSet()
+		};
 	}
 
 	/**
@@ -540,7 +2140,7 @@ export class AutoMocker {
 	 * @param {string} objectName - The name of the object being mocked.
 	 * @param {Object} objectToMock - The object to be mocked.
 	 * @param {number} depth - The current depth of recursion.
-	 * @param {number} maxDepth - The maximum depth of recursion.
+	 * @param {IMockTraversal} traversal - The state of the traversal.
 	 * @private
 	 * @returns {T[keyof T]}
 	 */
@@ -548,30 +2148,31 @@ export class AutoMocker {
 		objectName: string,
 		objectToMock: T,
 		depth: number,
-		maxDepth: number
+		traversal: IMockTraversal
 	): T {
-		/* istanbul ignore if: will need to revisit this */
-		if (this.isFunction(objectToMock)) {
-			objectToMock = (jasmine.createSpy("fn", objectToMock as unknown as jasmine.Func).and.callThrough() as unknown as T);
-			return;
-		}
+		traversal.visited.add(objectToMock);
+		this.registry.register(objectToMock, objectName);
 		const objectKeys = this.getInstancePropertyNames(objectToMock);
 		objectKeys.forEach((key: keyof T & string) => {
+			const path = `${objectName}.${key}`;
+			if (!traversal.filter.shouldTraverse(path)) {
+				return;
+			}
 			try {
+				const included = traversal.filter.isIncluded(path);
+				// Properties that are only traversed are read through data descriptors, so no getter runs
+				const mockedAsProperty = included
+					? this.mockAsProperty(objectName, objectToMock, key, traversal.sandbox)
+					: this.isAccessorProperty(objectToMock, key);
 				/* istanbul ignore else */
-				if (!this.mockAsProperty(objectToMock, key)) {
-					objectToMock[key] = this.mockValue(
-						objectName,
-						objectToMock,
-						key,
-						depth++,
-						maxDepth
-					);
+				if (!mockedAsProperty) {
+					traversal.sandbox.record(objectToMock, key);
+					objectToMock[key] = this.mockValue(objectName, objectToMock, key, depth, traversal.maxDepth, traversal);
 				}
 			} catch (e) {
 				/* istanbul ignore next */
 				console.error(
-					`Unable to mock ${objectName}.${key} with preexisting value of ${objectToMock[key]}`
+					`Unable to mock ${objectName}.${key} with preexisting value of ${objectToMock[key]} (seed: ${traversal.random.seed})`
 				)
 			}
 		});
@@ -586,9 +2187,14 @@ export class AutoMocker {
 	 * @private
 	 */
 	private getInstancePropertyNames<T>(objectToMock: T): string[] {
+		// The prototype chain of a function holds Function.prototype, which must not be mocked
+		if (this.isFunction(objectToMock)) {
+			return Object.keys(objectToMock);
+		}
 		let names: Set<string> = new Set();
 		let proto = objectToMock;
-		while (proto && proto !== Object.prototype) {
+		// The members of built-in prototypes, such as Object.prototype or Map.prototype, must not be mocked
+		while (proto && !this.isBuiltInPrototype(proto)) {
 			Object.getOwnPropertyNames(proto).forEach((name) => {
 				/* istanbul ignore else */
 				if (name !== "constructor") {
@@ -600,26 +2206,60 @@ export class AutoMocker {
 		return Array.from(names);
 	}
 
+	/**
+	 * Checks whether a property of an object, or of its prototype chain, is defined with a getter or a setter.
+	 *
+	 * @param {T} obj - The object to check.
+	 * @param {keyof T} key - The name of the property.
+	 * @returns {boolean} - True if the property is an accessor property.
+	 * @private
+	 */
+	private isAccessorProperty<T>(obj: T, key: keyof T): boolean {
+		let owner: any = obj;
+		let descriptor: PropertyDescriptor;
+		do {
+			descriptor = Object.getOwnPropertyDescriptor(owner, key);
+		} while (!descriptor && (owner = Object.getPrototypeOf(owner)));
+		return !!descriptor && !!(descriptor.get || descriptor.set);
+	}
+
 	/**
 	 * Mocks a property on an object for testing purposes.
 	 *
+	 * @param {string} objectName - The name of the object, used to register the spies.
 	 * @param {object} objectToMock - The object to mock the property on.
 	 * @param {string} key - The key of the property to mock.
+	 * @param {MockSandbox} [sandbox] - Records the replaced accessor descriptor.
 	 * @returns {boolean} - `true` if the property was successfully mocked, `false` otherwise.
 	 * @private
 	 */
-	private mockAsProperty<T extends {}>(objectToMock: T, key: keyof T): boolean {
+	private mockAsProperty<T extends {}>(
+		objectName: string,
+		objectToMock: T,
+		key: keyof T,
+		sandbox?: MockSandbox
+	): boolean {
+		const mock = objectToMock;
 		let descriptor: PropertyDescriptor;
 		do {
 			descriptor = Object.getOwnPropertyDescriptor(objectToMock, key);
 		} while (!descriptor && /* istanbul ignore next */ (objectToMock = Object.getPrototypeOf(objectToMock)));
 
 		if (descriptor && (descriptor.get || descriptor.set)) {
+			sandbox?.record(objectToMock, key);
 			if (descriptor.get && !this.isSpyLike(descriptor.get)) {
-				spyOnProperty(objectToMock, key, "get").and.callThrough();
+				const getter = this.spyAdapter.spyOnAccessor(objectToMock, key, "get");
+				this.spyAdapter.callThrough(getter);
+				this.registry.addSpy(mock, objectName, getter, `${objectName}.${String(key)} (get)`);
+				this.registry.setDefaultBehavior(getter, () => this.spyAdapter.callThrough(getter));
 			}
 			if (descriptor.set && !this.isSpyLike(descriptor.set)) {
-				spyOnProperty(objectToMock, key, "set");
+				this.registry.addSpy(
+					mock,
+					objectName,
+					this.spyAdapter.spyOnAccessor(objectToMock, key, "set"),
+					`${objectName}.${String(key)} (set)`
+				);
 			}
 			return true;
 		}
@@ -628,12 +2268,16 @@ export class AutoMocker {
 
 	/**
 	 * Mocks a value for a given object property.
+	 * Objects, arrays, maps and sets are traversed while ``` depth ``` is below ``` maxDepth ```; objects deeper in the same branch are kept.
+	 * Arrays, maps, sets and typed arrays are replaced by mocked copies, while objects and class instances are mocked in place,
+	 * so they keep their prototype. Instances of other built-in types, such as promises or regular expressions, are kept.
 	 *
 	 * @param {string} objectName - The name of the object.
 	 * @param {T} objectToMock - The object to mock.
 	 * @param {keyof T} key - The key of the property to mock.
-	 * @param {number} depth - The current depth of recursion.
+	 * @param {number} depth - The depth of the object holding the property.
 	 * @param {number} maxDepth - The maximum depth of recursion.
+	 * @param {IMockTraversal} [traversal] - The state of the traversal. Defaults to a traversal with the default options.
 	 * @returns {T[keyof T & string]} - The mocked value.
 	 * @private
 	 */
@@ -642,97 +2286,299 @@ export class AutoMocker {
 		objectToMock: T,
 		key: keyof T,
 		depth: number,
-		maxDepth: number
+		maxDepth: number,
+		traversal: IMockTraversal = this.createTraversal({ maxDepth })
 	): T[keyof T & string] {
 		const value = objectToMock[key];
+		const path = `${objectName}.${String(key)}`;
 
-		if (this.isUndefined(value) || value === null) {
+		if (this.isUndefined(value) || value === null || !traversal.filter.shouldTraverse(path)) {
 			// @ts-ignore
 			return value;
 		}
 
 		if (Array.isArray(value)) {
+			if (depth >= maxDepth || traversal.visited.has(value)) {
+				// @ts-ignore
+				return value;
+			}
+			traversal.visited.add(value);
 			// @ts-ignore
-			return depth < maxDepth
-				? value.map((item, i) =>
-					this.mockValue(`${objectName}[${i}]`, value, i as any, depth++, maxDepth)
-				) : value;
+			return value.map((item, i) => this.mockValue(path, value, i as any, depth, maxDepth, traversal));
 		}
-		if (this.isFunction(value)) {
+		if (value instanceof Map || value instanceof Set) {
 			// @ts-ignore
-			return this.isSpyLike(value)
-				? value
-				: spyOn(objectToMock, key as T[keyof T] extends Function ? keyof T : never)
+			return depth < maxDepth && !traversal.visited.has(value)
+				? this.mockCollection(path, value, depth, maxDepth, traversal)
+				: value;
 		}
-		if (this.isObject(value)) {
+		if (this.isObject(value) && !this.isDate(value) && !this.isTypedArray(value)) {
+			if (this.isBuiltInInstance(value)) {
+				// @ts-ignore
+				return value;
+			}
 			// @ts-ignore
-			return depth < maxDepth
-				? this.mockObject(`${objectName}.${String(key)}`, value, ++depth, maxDepth)
+			return depth < maxDepth && !traversal.visited.has(value)
+				? this.mockObject(path, value, depth + 1, traversal)
 				: value;
 		}
-		if (this.isString(value)) {
+		if (!traversal.filter.isIncluded(path)) {
 			// @ts-ignore
-			return `${objectName}.${String(key)}` + this.generateNumber().toString();
+			return value;
 		}
-		if (this.isDate(value)) {
+		if (this.isFunction(value)) {
 			// @ts-ignore
-			return new Date(2000, 1, 1, 1, 1, 1, 1);
+			return this.isSpyLike(value)
+				? value
+				: this.mockMethod(objectToMock as unknown as object, objectName, key, traversal.methods);
 		}
-		if (this.isNumber(value)) {
+		if (this.isTypedArray(value)) {
 			// @ts-ignore
-			return this.generateNumber();
+			return this.mockTypedArray(path, value, traversal);
 		}
-		return value;
+		return this.generateValue(path, String(key), value, traversal);
 	}
 
 	/**
-	 * Returns a Jasmine spy for the specified property accessor of an object.
-	 * If the object or its prototype chain does not contain the specified property, null is returned.
+	 * Generates the replacement of a primitive or a date, unless the options of the traversal keep values of its type.
 	 *
-	 * @param {T} obj - The object to inspect.
-	 * @param {keyof T} key - The key of the property.
-	 * @param {Accessor} accessor - The type of accessor to spy on (e.g., "get" or "set").
-	 * @returns {jasmine.Spy|null} - A Jasmine spy for the specified property accessor or null if not found.
+	 * @param {string} path - The path of the value.
+	 * @param {string} key - The name of the property holding the value.
+	 * @param {any} value - The value to replace.
+	 * @param {IMockTraversal} traversal - The state of the traversal.
 	 * @private
+	 * @returns {any} - The generated value, or the original value.
 	 */
-	private getPropertyAccessorSpy<T>(
-		obj: T,
-		key: keyof T,
-		accessor: Accessor
-	): jasmine.Spy {
+	private generateValue(path: string, key: string, value: any, traversal: IMockTraversal): any {
+		const type = getGeneratedValueType(value);
+		return type && traversal.replaceValues[replacedValueTypeOptions[type]]
+			? this.valueGenerators.generate({ path, key, value, type, random: traversal.random })
+			: value;
+	}
+
+	/**
+	 * Creates a copy of a map or a set whose values are mocked. Map keys are kept. The copy keeps the prototype of the original.
+	 * Entries are named after their map key, or their index for sets and object keys, e.g. ``` config.hosts.primary ```.
+	 *
+	 * @param {string} path - The path of the collection.
+	 * @param {Map | Set} collection - The collection to copy.
+	 * @param {number} depth - The depth of the object holding the collection.
+	 * @param {number} maxDepth - The maximum depth of recursion.
+	 * @param {IMockTraversal} traversal - The state of the traversal.
+	 * @private
+	 * @returns {Map | Set} - The mocked copy.
+	 */
+	private mockCollection<T extends Map<any, any> | Set<any>>(
+		path: string,
+		collection: T,
+		depth: number,
+		maxDepth: number,
+		traversal: IMockTraversal
+	): T {
+		traversal.visited.add(collection);
+		// Entries are mocked as the property of a holder, so they go through the same rules as properties
+		const mockEntry = (name: string, entry: any) => this.mockValue(path, { [name]: entry }, name, depth, maxDepth, traversal);
+		const mocked = collection instanceof Map
+			? new Map(Array.from(collection, ([key, entry], index): [any, any] => [
+				key,
+				mockEntry(this.isObject(key) || this.isFunction(key) ? String(index) : String(key), entry)
+			]))
+			: new Set(Array.from(collection as Set<any>, (entry, index) => mockEntry(String(index), entry)));
+		return Object.setPrototypeOf(mocked, Object.getPrototypeOf(collection));
+	}
+
+	/**
+	 * Creates a typed array of the same type and length whose elements are generated.
+	 *
+	 * @param {string} path - The path of the typed array.
+	 * @param {ArrayLike} typedArray - The typed array.
+	 * @param {IMockTraversal} traversal - The state of the traversal.
+	 * @private
+	 * @returns {ArrayLike} - The generated typed array.
+	 */
+	private mockTypedArray<T extends ArrayBufferView & ArrayLike<any>>(path: string, typedArray: T, traversal: IMockTraversal): T {
+		const mocked: T = new (typedArray.constructor as new (length: number) => T)(typedArray.length);
+		for (let i = 0; i < typedArray.length; i++) {
+			(mocked as any)[i] = this.generateValue(`${path}.${i}`, String(i), typedArray[i], traversal);
+		}
+		return mocked;
+	}
+
+	/**
+	 * Spies on a method of an object mocked with ``` mock ``` and registers the spy.
+	 *
+	 * @param {object} mock - The object the method belongs to.
+	 * @param {string} objectName - The name of the object.
+	 * @param {PropertyKey} key - The name of the method.
+	 * @param {MockMethodMode} mode - How the spy behaves until it is configured.
+	 * @private
+	 * @returns {Function} - The spy.
+	 */
+	private mockMethod(mock: object, objectName: string, key: PropertyKey, mode: MockMethodMode): Function {
+		const spyName = `${objectName}.${String(key)}`;
+		const spy = this.registerSpy(mock, objectName, this.spyAdapter.spyOnMethod(mock, key as never), spyName);
+		if (mode === "callThrough") {
+			this.spyAdapter.callThrough(spy);
+			this.registry.setDefaultBehavior(spy, () => this.spyAdapter.callThrough(spy));
+		} else if (mode === "strict") {
+			this.makeStrict(spy, spyName);
+		}
+		return spy;
+	}
+
+	/**
+	 * Spies on a method or the accessors of a property of an object, defining the spies on the object itself.
+	 * Members that are already spies or hold a plain value are skipped.
+	 *
+	 * @param {T} obj - The object to spy on.
+	 * @param {keyof T} key - The name of the member.
+	 * @private
+	 * @returns {Array<{ name: string, spy: Function }>} - The created spies, named like ``` isReady (get) ``` for accessors.
+	 */
+	private spyOnMember<T>(obj: T, key: keyof T): { name: string, spy: Function }[] {
+		let owner: any = obj;
 		let descriptor: PropertyDescriptor;
 		do {
-			descriptor = Object.getOwnPropertyDescriptor(obj, key);
-		} while (!descriptor && (obj = Object.getPrototypeOf(obj)));
+			descriptor = Object.getOwnPropertyDescriptor(owner, key);
+		} while (!descriptor && (owner = Object.getPrototypeOf(owner)));
 
 		if (!descriptor) {
-			return null;
+			return [];
+		}
+		if (descriptor.get || descriptor.set) {
+			return (["get", "set"] as Accessor[])
+				.filter((accessor) => descriptor[accessor] && !this.isSpyLike(descriptor[accessor]))
+				.map((accessor) => ({
+					name: `${String(key)} (${accessor})`,
+					spy: this.spyAdapter.spyOnAccessor(obj, key, accessor)
+				}));
+		}
+		return this.isFunction(descriptor.value) && !this.isSpyLike(descriptor.value)
+			? [{ name: String(key), spy: this.spyAdapter.spyOnMethod(obj, key) }]
+			: [];
+	}
+
+	/**
+	 * Registers a spy created for a mocked object.
+	 *
+	 * @param {object} mock - The object the spy belongs to.
+	 * @param {string} objectName - The name of the object.
+	 * @param {Function} spy - The spy.
+	 * @param {string} spyName - The identity of the spy, e.g. ``` config.reload ```.
+	 * @private
+	 * @returns {Function} - The spy.
+	 */
+	private registerSpy<TFunction extends Function>(
+		mock: object,
+		objectName: string,
+		spy: TFunction,
+		spyName: string
+	): TFunction {
+		this.registry.addSpy(mock, objectName, spy, spyName);
+		return spy;
+	}
+
+	/**
+	 * Creates the fake function for a spy that maps its first argument to return values.
+	 *
+	 * @param {Function} spy - The spy the fake is for.
+	 * @param {FirstArgReturnMap} returnMap - The mapping of first arguments to values.
+	 * @param {any | UnmatchedArgumentsFallback} defaultReturn - The value used when nothing matches, or the fallback to apply.
+	 * @param {string} spyName - The name of the spy, used in error messages.
+	 * @param {Function} wrap - Converts a mapped value into the return value of the spy.
+	 * @protected
+	 * @returns {Function} - The fake function.
+	 */
+	protected createFirstArgMappedFake<T, R>(
+		spy: Function,
+		returnMap: FirstArgReturnMap<T>,
+		defaultReturn: T | UnmatchedArgumentsFallback,
+		spyName: string,
+		wrap: (value: T) => R
+	): (...args: any[]) => R {
+		const entries: readonly (readonly [any, T])[] = Array.isArray(returnMap)
+			? returnMap
+			: Object.keys(returnMap).map((key) => [key, (returnMap as Record<string, T>)[key]] as const);
+		const adapter = this.spyAdapter;
+		const mocker = this;
+
+		return function (this: any, ...args: any[]): R {
+			const [key] = args;
+			if (!Array.isArray(returnMap) && Object.prototype.hasOwnProperty.call(returnMap, key)) {
+				return wrap((returnMap as Record<string | number, T>)[key]);
+			}
+			const match = Array.isArray(returnMap) && entries.find(([expected]) => argumentMatches(expected, key));
+			if (match) {
+				return wrap(match[1]);
+			}
+			if (!(defaultReturn instanceof UnmatchedArgumentsFallback)) {
+				return wrap(defaultReturn);
+			}
+			switch (defaultReturn.kind) {
+				case "returnValue":
+					return wrap(defaultReturn.value);
+				case "callThrough":
+					return adapter.callOriginal(spy, this, args);
+				case "throwError":
+					throw new UnmatchedArgumentsError(mocker.resolveSpyName(spy, spyName), args, entries.map(([expected]) => [expected]));
+			}
+		};
+	}
+
+	/**
+	 * Retrieves the state of a stand-in constructor.
+	 *
+	 * @param {Function} standIn - The stand-in created by ``` mockConstructor ```.
+	 * @param {string} caller - The name of the calling method, used in the error message.
+	 * @private
+	 * @returns {IMockedConstructorState<T>} - The state.
+	 * @throws {NotAMockedConstructorError} - If the constructor was not created by ``` mockConstructor ```.
+	 */
+	private getConstructorState<T>(standIn: Function, caller: string): IMockedConstructorState<T> {
+		const state = this.constructorStates.get(standIn);
+		if (!state) {
+			throw new NotAMockedConstructorError(caller, standIn?.name);
 		}
+		return state;
+	}
 
-		return descriptor[accessor] as jasmine.Spy;
+	/**
+	 * Retrieves the name a mock was created with by ``` mockClass ``` or ``` mock ```.
+	 *
+	 * @param {T} mock - The mock.
+	 * @protected
+	 * @returns {string} - The name of the mock, or "mock" if it was not created by this AutoMocker.
+	 */
+	protected getMockName<T>(mock: T): string {
+		return (this.isObject(mock) || this.isFunction(mock)) && this.mockNames.get(mock as unknown as object) || "mock";
 	}
 
 	/**
 	 * Throws an error indicating that the provided spy is not an actual spy.
 	 *
 	 * @param {string} caller - The name of the calling function or component.
-	 * @param {string} [spyName="[spyName not provided]"] - The name of the spy.
+	 * @param {string} [spyName] - The name of the spy. Defaults to a description of the value.
+	 * @param {any} [value] - The value that is not a spy.
 	 *
 	 * @protected
 	 * @returns {never} - This function does not return a value.
+	 * @throws {NotASpyError}
 	 */
-	protected throwNotASpyError(caller: string, spyName: string = "[spyName not provided]"): never {
-		throw new Error(`${caller}: Provided spy ${spyName} is not an actual spy.`)
+	protected throwNotASpyError(caller: string, spyName?: string, value?: unknown): never {
+		throw new NotASpyError(caller, spyName || (value === undefined ? "[spyName not provided]" : formatValue(value)));
 	}
 
 	/**
-	 * Generates a random number between 0 and 999.
+	 * Resolves the name of a spy for diagnostics: the provided name, the ``` ClassName.member ``` identity the spy
+	 * was registered with, or the name the spy adapter knows it by.
 	 *
-	 * @private
-	 * @returns {number} The generated random number.
+	 * @param {Function} spy - The spy.
+	 * @param {string} [spyName] - The name provided by the caller.
+	 * @protected
+	 * @returns {string} - The name of the spy.
 	 */
-	private generateNumber(): number {
-		return Math.floor(Math.random() * 1000);
+	protected resolveSpyName(spy: Function, spyName?: string): string {
+		return spyName || this.registry.getSpyName(spy) || this.spyAdapter.getSpyName(spy);
 	}
 
 	/**
@@ -769,24 +2615,40 @@ export class AutoMocker {
 	}
 
 	/**
-	 * Checks if the given value is a number.
+	 * Checks if a value is a typed array, such as a Uint8Array or a Float64Array.
 	 *
 	 * @param {any} value - The value to check.
 	 * @private
-	 * @return {boolean} - True if the value is a number, false otherwise.
+	 * @returns {boolean} - True if the value is a typed array.
+	 */
+	private isTypedArray(value: any): value is ArrayBufferView & ArrayLike<any> {
+		return ArrayBuffer.isView(value) && !(value instanceof DataView);
+	}
+
+	/**
+	 * Checks if an object is a prototype defined by the JavaScript runtime, such as Object.prototype or Map.prototype.
+	 *
+	 * @param {any} proto - The object to check.
+	 * @private
+	 * @returns {boolean} - True if the constructor of the prototype is native code.
 	 */
-	private isNumber(value: any): value is number {
-		return typeof value === "number";
+	private isBuiltInPrototype(proto: any): boolean {
+		const constructor = Object.getOwnPropertyDescriptor(proto, "constructor")?.value;
+		return this.isFunction(constructor)
+			&& constructor.prototype === proto
+			&& /\{\s*\[native code]\s*}\s*$/.test(Function.prototype.toString.call(constructor));
 	}
 
 	/**
-	 * Checks if the given value is a string.
+	 * Checks if an object is an instance of a built-in type other than Object, such as a Promise or a RegExp.
 	 *
-	 * @param {*} value - The value to be checked.
-	 * @returns {boolean} - Returns true if the value is a string, false otherwise.
+	 * @param {any} value - The object to check.
+	 * @private
+	 * @returns {boolean} - True if the object is a built-in instance.
 	 */
-	private isString(value: any): value is string {
-		return typeof value === "string";
+	private isBuiltInInstance(value: any): boolean {
+		const proto = Object.getPrototypeOf(value);
+		return !!proto && proto !== Object.prototype && this.isBuiltInPrototype(proto);
 	}
 
 	/**
@@ -807,7 +2669,7 @@ export class AutoMocker {
 	 * @protected
 	 * @return {boolean} - Returns true if the value is spy-like, false otherwise.
 	 */
-	protected isSpyLike(value: any): value is jasmine.Spy {
-		return value && !!value.calls;
+	protected isSpyLike(value: any): value is Function {
+		return this.spyAdapter.isSpy(value);
 	}
 }
\ No newline at end of file
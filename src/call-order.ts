@@ -0,0 +1,98 @@
+import { ArgumentsOrMatchers, argumentMatches } from "./argument-matchers";
+import { VerificationError } from "./errors";
+import { formatArguments } from "./format-value";
+import { ISpyAdapter, ISpyCall } from "./spy-adapters";
+
+/**
+ * Describes one call expected by ``` AutoMocker.verifyInOrder ```.
+ *
+ * @template TFunction - The type of the spied function.
+ */
+export interface IOrderedCallExpectation<TFunction extends (...args: any[]) => any = (...args: any[]) => any> {
+	/**
+	 * The spy expected to be called.
+	 */
+	readonly spy: TFunction;
+	/**
+	 * The arguments, or argument matchers, the call is expected to have. Any arguments match when omitted.
+	 */
+	readonly args?: ArgumentsOrMatchers<Parameters<TFunction>>;
+	/**
+	 * The name of the spy used in failure messages. Defaults to the name the spy was created with.
+	 */
+	readonly spyName?: string;
+}
+
+interface ITimelineEntry {
+	readonly spy: Function;
+	readonly spyName: string;
+	readonly call: ISpyCall;
+}
+
+/**
+ * Verifies that the given spies were called in the given order.
+ * Each expectation is matched against the first suitable call made after the call matched by the previous expectation;
+ * unrelated calls in between are allowed.
+ *
+ * @param {ISpyAdapter} spyAdapter - The adapter the spies were created with.
+ * @param {IOrderedCallExpectation[]} expectations - The calls in the expected order.
+ * @param {number} [seed] - The seed of the values generated by the AutoMocker, added to the failure message.
+ * @returns {void}
+ * @throws {VerificationError} - If the calls were not made in the expected order. The message contains the actual call timeline.
+ */
+export function verifyCallOrder(
+	spyAdapter: ISpyAdapter,
+	expectations: readonly IOrderedCallExpectation[],
+	seed?: number
+): void {
+	const spyNames = new Map<Function, string>();
+	expectations.forEach((expectation) => {
+		if (!spyNames.has(expectation.spy)) {
+			spyNames.set(expectation.spy, expectation.spyName || spyAdapter.getSpyName(expectation.spy));
+		}
+	});
+
+	const timeline: ITimelineEntry[] = [];
+	spyNames.forEach((spyName, spy) => {
+		spyAdapter.getCalls(spy).forEach((call) => timeline.push({ spy, spyName, call }));
+	});
+	timeline.sort((a, b) => a.call.invocationOrder - b.call.invocationOrder);
+
+	let position = 0;
+	expectations.forEach((expectation, index) => {
+		const matchIndex = timeline.findIndex((entry, entryIndex) =>
+			entryIndex >= position
+			&& entry.spy === expectation.spy
+			&& (!expectation.args || argumentMatches(expectation.args, entry.call.args))
+		);
+		if (matchIndex < 0) {
+			throw new VerificationError(createFailureMessage(expectations, index, spyNames, timeline), seed);
+		}
+		position = matchIndex + 1;
+	});
+}
+
+function describeExpectation(expectation: IOrderedCallExpectation, spyNames: Map<Function, string>): string {
+	const spyName = spyNames.get(expectation.spy);
+	return expectation.args ? `${spyName}${formatArguments(expectation.args)}` : spyName;
+}
+
+function createFailureMessage(
+	expectations: readonly IOrderedCallExpectation[],
+	failedIndex: number,
+	spyNames: Map<Function, string>,
+	timeline: readonly ITimelineEntry[]
+): string {
+	const expectedOrder = expectations
+		.map((expectation, index) => `\n  ${index + 1}. ${describeExpectation(expectation, spyNames)}`)
+		.join("");
+	const actualTimeline = timeline.length
+		? timeline.map((entry, index) => `\n  ${index + 1}. ${entry.spyName}${formatArguments(entry.call.args)}`).join("")
+		: "\n  (no calls)";
+	const failedExpectation = describeExpectation(expectations[failedIndex], spyNames);
+	const position = failedIndex === 0 ? "" : ` after ${describeExpectation(expectations[failedIndex - 1], spyNames)}`;
+
+	return `Expected ${failedExpectation} to be called${position}, but no such call was found.`
+		+ `\nExpected order:${expectedOrder}`
+		+ `\nActual calls:${actualTimeline}`;
+}
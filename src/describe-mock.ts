@@ -0,0 +1,46 @@
+import { formatArguments } from "./format-value";
+import { ISpyCall } from "./spy-adapters";
+
+/**
+ * Describes one spied method or accessor of a mock.
+ */
+export interface IMockMemberDescription {
+	/**
+	 * The name of the member, with the accessor for accessor spies, e.g. ``` isReady (get) ```.
+	 */
+	readonly name: string;
+	/**
+	 * The description of the configured behavior.
+	 */
+	readonly behavior: string;
+	/**
+	 * The recorded calls.
+	 */
+	readonly calls: readonly ISpyCall[];
+}
+
+/**
+ * Formats the description of a mock, with one line per member.
+ *
+ * @example
+ * Repository {
+ *   load: returns "loaded"; returns "two" for (2); called 2 times: (1), (2)
+ *   isReady (get): not configured; never called
+ * }
+ *
+ * @param {string} mockName - The name of the mock.
+ * @param {IMockMemberDescription[]} members - The members of the mock.
+ * @returns {string} - The description.
+ */
+export function formatMockDescription(mockName: string, members: readonly IMockMemberDescription[]): string {
+	const lines = members.map((member) => `\n  ${member.name}: ${member.behavior}; ${formatCalls(member.calls)}`);
+	return `${mockName} {${lines.join("")}${lines.length ? "\n" : " "}}`;
+}
+
+function formatCalls(calls: readonly ISpyCall[]): string {
+	if (!calls.length) {
+		return "never called";
+	}
+	const times = calls.length === 1 ? "time" : "times";
+	return `called ${calls.length} ${times}: ${calls.map((call) => formatArguments(call.args)).join(", ")}`;
+}
@@ -0,0 +1,382 @@
+import { Accessor } from "@types-local";
+import { formatArguments } from "./format-value";
+
+/**
+ * The stable codes of the errors thrown by this library, for telling errors apart without relying on their messages.
+ */
+export type AutoMockerErrorCode =
+	| "NOT_A_SPY"
+	| "ACCESSOR_NOT_FOUND"
+	| "METHOD_NOT_FOUND"
+	| "CALL_NOT_FOUND"
+	| "UNMATCHED_ARGUMENTS"
+	| "UNCONFIGURED_STRICT_SPY"
+	| "VERIFICATION_FAILED"
+	| "SNAPSHOT_MISMATCH"
+	| "SNAPSHOT_MISSING"
+	| "SNAPSHOT_ENVIRONMENT"
+	| "OBSERVABLE_DID_NOT_EMIT"
+	| "TRAIT_NOT_FOUND"
+	| "NESTED_MOCK_NOT_FOUND"
+	| "NOT_A_MOCKED_CONSTRUCTOR"
+	| "CONSTRUCTED_INSTANCE_NOT_FOUND"
+	| "MEMBER_NOT_SPIABLE"
+	| "INVALID_DEPENDENCY"
+	| "DEPENDENCY_NOT_FOUND"
+	| "AMBIGUOUS_DEPENDENCY"
+	| "AFTER_EACH_NOT_AVAILABLE";
+
+/**
+ * The base class of the errors thrown by this library.
+ *
+ * @example
+ * try {
+ *   autoMocker.withReturnValue(notASpy, 1);
+ * } catch (e) {
+ *   if (e instanceof AutoMockerError && e.code === "NOT_A_SPY") { ... }
+ * }
+ */
+export class AutoMockerError extends Error {
+	constructor(public readonly code: AutoMockerErrorCode, message: string) {
+		super(message);
+		this.name = new.target.name;
+	}
+}
+
+/**
+ * Thrown when a method that configures or inspects spies is given a value that is not a spy.
+ */
+export class NotASpyError extends AutoMockerError {
+	/**
+	 * @param {string} caller - The name of the method that was given the value.
+	 * @param {string} spyName - The name of the spy, or a description of the value.
+	 */
+	constructor(public readonly caller: string, public readonly spyName: string) {
+		super("NOT_A_SPY", `${caller}: Provided spy ${spyName} is not an actual spy.`);
+	}
+}
+
+/**
+ * Thrown when a property does not have the getter or setter to spy on or configure.
+ */
+export class AccessorNotFoundError extends AutoMockerError {
+	/**
+	 * @param {string} caller - The name of the method that looked for the accessor.
+	 * @param {string} propertyName - The name of the property, e.g. ``` Repository.isReady ```.
+	 * @param {Accessor} accessor - The missing accessor.
+	 */
+	constructor(public readonly caller: string, public readonly propertyName: string, public readonly accessor: Accessor) {
+		super("ACCESSOR_NOT_FOUND", `${caller}: ${propertyName} does not have a ${accessor} accessor.`);
+	}
+}
+
+/**
+ * Thrown when a member that should be spied on as a method is not a function.
+ */
+export class MethodNotFoundError extends AutoMockerError {
+	/**
+	 * @param {string} caller - The name of the method that looked for the method.
+	 * @param {string} methodName - The name of the member.
+	 */
+	constructor(public readonly caller: string, public readonly methodName: string) {
+		super("METHOD_NOT_FOUND", `${caller}: ${methodName} is not a method and cannot be spied on.`);
+	}
+}
+
+/**
+ * Thrown when inspecting a call a spy did not receive.
+ */
+export class CallNotFoundError extends AutoMockerError {
+	/**
+	 * @param {string} caller - The name of the method that looked for the call.
+	 * @param {string} spyName - The name of the spy.
+	 * @param {number} callIndex - The index of the requested call.
+	 * @param {number} callCount - The number of calls the spy received.
+	 */
+	constructor(
+		public readonly caller: string,
+		public readonly spyName: string,
+		public readonly callIndex: number,
+		public readonly callCount: number
+	) {
+		super(
+			"CALL_NOT_FOUND",
+			`${caller}: ${spyName} was called ${callCount} time(s), so there is no call at index ${callIndex}.`
+		);
+	}
+}
+
+/**
+ * Thrown by a spy configured with ``` UnmatchedArgumentsFallback.throwError() ``` when it is called with unregistered arguments.
+ */
+export class UnmatchedArgumentsError extends AutoMockerError {
+	/**
+	 * @param {string} spyName - The name of the spy.
+	 * @param {any[]} args - The arguments of the call.
+	 * @param {any[][]} registeredArguments - The arguments registered on the spy.
+	 */
+	constructor(
+		public readonly spyName: string,
+		public readonly args: readonly any[],
+		public readonly registeredArguments: readonly (readonly any[])[]
+	) {
+		const registeredList = registeredArguments.length
+			? registeredArguments.map((expected) => `\n  ${formatArguments(expected)}`).join("")
+			: " none";
+		super(
+			"UNMATCHED_ARGUMENTS",
+			`${spyName} was called with ${formatArguments(args)}, which matches none of the registered arguments:${registeredList}`
+		);
+	}
+}
+
+/**
+ * Thrown by a spy of a strict mock that is called before it is configured.
+ */
+export class UnconfiguredStrictSpyError extends AutoMockerError {
+	/**
+	 * @param {string} spyName - The name of the spy.
+	 * @param {any[]} args - The arguments of the call.
+	 * @param {number} [seed] - The seed of the values generated by the AutoMocker, appended to the message to replay the spec.
+	 */
+	constructor(public readonly spyName: string, public readonly args: readonly any[], public readonly seed?: number) {
+		super(
+			"UNCONFIGURED_STRICT_SPY",
+			appendSeed(`Strict mock ${spyName} was called with ${formatArguments(args)} but has not been configured.`, seed)
+		);
+	}
+}
+
+/**
+ * Thrown when recorded calls do not meet an expectation of ``` verify ```, ``` verifyInOrder ```, ``` verifyNoMoreInteractions ```
+ * or a call inspection helper.
+ */
+export class VerificationError extends AutoMockerError {
+	/**
+	 * @param {string} message - The description of the failed expectation.
+	 * @param {number} [seed] - The seed of the values generated by the AutoMocker, appended to the message to replay the spec.
+	 */
+	constructor(message: string, public readonly seed?: number) {
+		super("VERIFICATION_FAILED", appendSeed(message, seed));
+	}
+}
+
+/**
+ * Thrown when recorded calls differ from their snapshot file.
+ */
+export class SnapshotMismatchError extends AutoMockerError {
+	/**
+	 * @param {string} snapshotName - The name of the snapshot.
+	 * @param {string} snapshotPath - The path of the snapshot file.
+	 * @param {string} diff - The line diff of the snapshot and the recorded calls.
+	 * @param {number} [seed] - The seed of the values generated by the AutoMocker, appended to the message to replay the spec.
+	 */
+	constructor(
+		public readonly snapshotName: string,
+		public readonly snapshotPath: string,
+		public readonly diff: string,
+		public readonly seed?: number
+	) {
+		super(
+			"SNAPSHOT_MISMATCH",
+			appendSeed(
+				`Recorded interactions do not match snapshot "${snapshotName}" (${snapshotPath}).`
+				+ "\n- snapshot\n+ recorded\n"
+				+ `\n${diff}`
+				+ "\n\nSet UPDATE_SNAPSHOTS=1 to rewrite the snapshot.",
+				seed
+			)
+		);
+	}
+}
+
+/**
+ * Thrown on a CI server when a snapshot file does not exist, as it would otherwise be written and pass.
+ */
+export class SnapshotMissingError extends AutoMockerError {
+	/**
+	 * @param {string} snapshotName - The name of the snapshot.
+	 * @param {string} snapshotPath - The path of the missing snapshot file.
+	 * @param {number} [seed] - The seed of the values generated by the AutoMocker, appended to the message to replay the spec.
+	 */
+	constructor(public readonly snapshotName: string, public readonly snapshotPath: string, public readonly seed?: number) {
+		super(
+			"SNAPSHOT_MISSING",
+			appendSeed(
+				`Snapshot "${snapshotName}" (${snapshotPath}) does not exist. `
+				+ "Record it locally and commit it, or set UPDATE_SNAPSHOTS=1 to write it.",
+				seed
+			)
+		);
+	}
+}
+
+/**
+ * Thrown when an observable read synchronously does not emit the expected notification.
+ */
+export class ObservableDidNotEmitError extends AutoMockerError {
+	/**
+	 * @param {string} notification - The expected notification: ``` "value" ```, ``` "error" ``` or ``` "completion" ```.
+	 * @param {number} skips - The number of emissions that were requested to be skipped.
+	 * @param {number} emissionCount - The number of emissions that were skipped.
+	 */
+	constructor(
+		public readonly notification: "value" | "error" | "completion",
+		public readonly skips: number,
+		public readonly emissionCount: number
+	) {
+		const description = { value: "emit", error: "emit error", completion: "complete" }[notification];
+		super(
+			"OBSERVABLE_DID_NOT_EMIT",
+			`observable did not ${description} (skips requested: ${skips}, total skipped emissions: ${emissionCount})`
+		);
+	}
+}
+
+/**
+ * Thrown when a factory is asked to apply a trait it does not define.
+ */
+export class TraitNotFoundError extends AutoMockerError {
+	/**
+	 * @param {string} factoryName - The name of the factory.
+	 * @param {string} traitName - The name of the trait.
+	 */
+	constructor(public readonly factoryName: string, public readonly traitName: string) {
+		super("TRAIT_NOT_FOUND", `Factory ${factoryName} does not define a trait named "${traitName}".`);
+	}
+}
+
+/**
+ * Thrown when interaction snapshots cannot be read or written in the environment the specs run in.
+ */
+export class SnapshotEnvironmentError extends AutoMockerError {
+	/**
+	 * @param {string} message - What the environment lacks.
+	 */
+	constructor(message: string) {
+		super("SNAPSHOT_ENVIRONMENT", message);
+	}
+}
+
+/**
+ * Thrown when asking for the nested mock of a member that has none.
+ */
+export class NestedMockNotFoundError extends AutoMockerError {
+	/**
+	 * @param {string} mockName - The name of the mock.
+	 * @param {string} memberName - The name of the member.
+	 */
+	constructor(public readonly mockName: string, public readonly memberName: string) {
+		super(
+			"NESTED_MOCK_NOT_FOUND",
+			`${mockName}.${memberName} has no nested mock. `
+			+ "Make sure it is listed in the nested option of mockClass and the maxDepth of the AutoMocker is large enough."
+		);
+	}
+}
+
+/**
+ * Thrown when a method that inspects mocked constructors is given a constructor not created by ``` mockConstructor ```.
+ */
+export class NotAMockedConstructorError extends AutoMockerError {
+	/**
+	 * @param {string} caller - The name of the method that was given the constructor.
+	 * @param {string} constructorName - The name of the constructor.
+	 */
+	constructor(public readonly caller: string, public readonly constructorName: string) {
+		super("NOT_A_MOCKED_CONSTRUCTOR", `${caller}: Provided constructor ${constructorName} was not created by mockConstructor.`);
+	}
+}
+
+/**
+ * Thrown when asking for an instance a mocked constructor did not create.
+ */
+export class ConstructedInstanceNotFoundError extends AutoMockerError {
+	/**
+	 * @param {string} constructorName - The name of the mocked constructor.
+	 * @param {number} instanceCount - The number of instances created.
+	 * @param {number} index - The index that was asked for.
+	 */
+	constructor(public readonly constructorName: string, public readonly instanceCount: number, public readonly index: number) {
+		super(
+			"CONSTRUCTED_INSTANCE_NOT_FOUND",
+			`getConstructedInstance: ${constructorName} was instantiated ${instanceCount} time(s), so there is no instance at index ${index}.`
+		);
+	}
+}
+
+/**
+ * Thrown when a member that should be spied on is neither a method nor an accessor.
+ */
+export class MemberNotSpiableError extends AutoMockerError {
+	/**
+	 * @param {string} caller - The name of the method that tried to spy on the member.
+	 * @param {string} memberName - The name of the member, e.g. ``` Repository.name ```.
+	 */
+	constructor(public readonly caller: string, public readonly memberName: string) {
+		super("MEMBER_NOT_SPIABLE", `${caller}: ${memberName} is not a method or accessor and cannot be spied on.`);
+	}
+}
+
+/**
+ * Thrown when a dependency passed to ``` createSut ``` has neither a type to mock nor a value.
+ */
+export class InvalidDependencyError extends AutoMockerError {
+	/**
+	 * @param {string} sutName - The name of the class under test.
+	 * @param {number} index - The position of the dependency.
+	 */
+	constructor(public readonly sutName: string, public readonly index: number) {
+		super("INVALID_DEPENDENCY", `createSut: dependency ${index} of ${sutName} has neither a type to mock nor a value.`);
+	}
+}
+
+/**
+ * Thrown when asking a class created with ``` createSut ``` for the mock of a dependency it does not have.
+ */
+export class DependencyNotFoundError extends AutoMockerError {
+	/**
+	 * @param {string} sutName - The name of the class under test.
+	 * @param {string} token - A description of the token that was asked for.
+	 */
+	constructor(public readonly sutName: string, public readonly token: string) {
+		super("DEPENDENCY_NOT_FOUND", `createSut: ${sutName} has no dependency for ${token}.`);
+	}
+}
+
+/**
+ * Thrown when asking a class created with ``` createSut ``` for the mock of a token several dependencies share.
+ */
+export class AmbiguousDependencyError extends AutoMockerError {
+	/**
+	 * @param {string} sutName - The name of the class under test.
+	 * @param {string} token - A description of the shared token.
+	 * @param {number[]} indexes - The positions of the dependencies that share the token.
+	 */
+	constructor(public readonly sutName: string, public readonly token: string, public readonly indexes: readonly number[]) {
+		super(
+			"AMBIGUOUS_DEPENDENCY",
+			`createSut: dependencies ${indexes.join(", ")} of ${sutName} share the token ${token}. Use mocks by position or distinct tokens.`
+		);
+	}
+}
+
+/**
+ * Thrown when the hooks of ``` registerAutoMockerHooks ``` are registered without a global ``` afterEach ```.
+ */
+export class AfterEachNotAvailableError extends AutoMockerError {
+	constructor() {
+		super("AFTER_EACH_NOT_AVAILABLE", "registerAutoMockerHooks: the test runner provides no global afterEach.");
+	}
+}
+
+/**
+ * Appends the seed of the generated values to an error message, so a failing spec can be replayed with the same values.
+ *
+ * @param {string} message - The error message.
+ * @param {number} [seed] - The seed, if the error was thrown by an AutoMocker.
+ * @returns {string} - The message, followed by the seed.
+ */
+function appendSeed(message: string, seed?: number): string {
+	return seed === undefined ? message : `${message}\n\nSeed of the mocked values: ${seed}`;
+}
@@ -0,0 +1,357 @@
+import { SeededRandom } from "./seeded-random";
+import { getGeneratedValueType, ValueGeneratorRegistry } from "./value-generators";
+import { TraitNotFoundError } from "./errors";
+
+/**
+ * Describes the field a ``` FactoryField ``` resolves a value for.
+ */
+export interface IFactoryFieldContext {
+	/**
+	 * The path of the field, e.g. ``` user.address.city ```.
+	 */
+	readonly path: string;
+	/**
+	 * The name of the field.
+	 */
+	readonly key: string;
+	/**
+	 * The seeded random source of the factory.
+	 */
+	readonly random: SeededRandom;
+	/**
+	 * The generators of the factory, the same ones ``` AutoMocker.mock ``` uses.
+	 */
+	readonly valueGenerators: ValueGeneratorRegistry;
+
+	/**
+	 * Returns the next number of the sequence of the field, starting at 1.
+	 *
+	 * @returns {number} - The number.
+	 */
+	nextSequence(): number;
+}
+
+/**
+ * A field of a factory definition whose value is resolved each time an object is built.
+ * Create fields with ``` sequence ```, ``` generated ``` or ``` association ```.
+ */
+export class FactoryField<T> {
+	constructor(private readonly resolver: (context: IFactoryFieldContext) => T) {}
+
+	/**
+	 * Resolves the value of the field.
+	 *
+	 * @param {IFactoryFieldContext} context - The field being built.
+	 * @returns {T} - The value.
+	 */
+	public resolve(context: IFactoryFieldContext): T {
+		return this.resolver(context);
+	}
+}
+
+/**
+ * A field built by another factory. Plain object overrides of the field are passed on to that factory,
+ * so they are merged into the associated object instead of replacing it.
+ */
+export class AssociationField<T> extends FactoryField<T> {
+	constructor(
+		private readonly factory: Factory<T>,
+		private readonly overrides: FactoryOverrides<T> = {},
+		private readonly traitNames: readonly string[] = []
+	) {
+		super(() => factory.build(overrides, ...traitNames));
+	}
+
+	/**
+	 * Creates a copy of the field with additional overrides merged over its own.
+	 *
+	 * @param {FactoryOverrides<T>} overrides - The deep partial overrides.
+	 * @returns {AssociationField<T>} - The new field.
+	 */
+	public withOverrides(overrides: FactoryOverrides<T>): AssociationField<T> {
+		return new AssociationField(this.factory, mergeDefinitions(this.overrides, overrides), this.traitNames);
+	}
+}
+
+/**
+ * The default values of the fields of the objects a factory builds. Nested plain objects are definitions themselves.
+ */
+export type FactoryDefinition<T> = {
+	[K in keyof T]: FactoryValue<T[K]>;
+};
+
+/**
+ * The value of a field in a factory definition: the value itself, a ``` FactoryField ```, or the definition of a nested object.
+ */
+export type FactoryValue<T> =
+	| T
+	| FactoryField<T>
+	| (T extends Function | Date | readonly any[] ? never : T extends object ? FactoryDefinition<T> : never);
+
+/**
+ * Deep partial overrides of a factory definition, used by traits and by ``` build ```.
+ * Nested plain objects are merged; other values, including arrays, replace the defaults.
+ */
+export type FactoryOverrides<T> = {
+	[K in keyof T]?:
+		| T[K]
+		| FactoryField<T[K]>
+		| (T[K] extends Function | Date | readonly any[] ? never : T[K] extends object ? FactoryOverrides<T[K]> : never);
+};
+
+/**
+ * Interface representing options for defining a factory with ``` defineFactory ```.
+ */
+export interface IFactoryOptions {
+	/**
+	 * The name of the objects built, used as the first segment of field paths and in error messages.
+	 *
+	 * Default value: ``` "factory" ```
+	 */
+	readonly name: string;
+	/**
+	 * The seed of the values generated by ``` generated ``` fields.
+	 *
+	 * Default value: a random seed
+	 */
+	readonly seed: number;
+	/**
+	 * The generators used by ``` generated ``` fields.
+	 *
+	 * Default value: ``` ValueGeneratorRegistry.createDefault() ```
+	 */
+	readonly valueGenerators: ValueGeneratorRegistry;
+}
+
+/**
+ * Builds objects of a type from default values, named traits and overrides.
+ *
+ * @example
+ * const userFactory = defineFactory<IUser>({
+ *   id: sequence((n) => n),
+ *   email: generated(""),
+ *   role: "member",
+ *   address: association(addressFactory)
+ * }, { name: "user" }).trait("admin", { role: "admin" });
+ *
+ * const admin = userFactory.build({ address: { city: "Oslo" } }, "admin");
+ */
+export class Factory<T> {
+	/**
+	 * The name of the objects built.
+	 */
+	public readonly name: string;
+	/**
+	 * The seed of the generated values. Pass it to ``` defineFactory ``` to replay the same values.
+	 */
+	public readonly seed: number;
+	private readonly valueGenerators: ValueGeneratorRegistry;
+	private readonly random: SeededRandom;
+	private readonly traits = new Map<string, FactoryOverrides<T>>();
+	private readonly sequences = new Map<string, number>();
+
+	/**
+	 * @param {FactoryDefinition<T>} definition - The default values of the fields.
+	 * @param {Partial<IFactoryOptions>} [options] - The options of the factory.
+	 */
+	constructor(private readonly definition: FactoryDefinition<T>, options: Partial<IFactoryOptions> = {}) {
+		this.name = options.name ?? "factory";
+		this.seed = options.seed ?? SeededRandom.createSeed();
+		this.valueGenerators = options.valueGenerators ?? ValueGeneratorRegistry.createDefault();
+		this.random = new SeededRandom(this.seed);
+	}
+
+	/**
+	 * Defines a named set of overrides that ``` build ``` and ``` buildList ``` can apply.
+	 *
+	 * @param {string} name - The name of the trait, e.g. ``` "archived" ```.
+	 * @param {FactoryOverrides<T>} overrides - The overrides the trait applies.
+	 * @returns {Factory<T>} - The factory, for chaining.
+	 */
+	public trait(name: string, overrides: FactoryOverrides<T>): this {
+		this.traits.set(name, overrides);
+		return this;
+	}
+
+	/**
+	 * Builds an object. The defaults are overridden by the traits, in order, and then by the overrides.
+	 * Dates and other objects in the defaults and traits are copied, so built objects do not share them.
+	 *
+	 * @param {FactoryOverrides<T>} [overrides] - The deep partial overrides.
+	 * @param {...string} traitNames - The names of the traits to apply.
+	 * @returns {T} - The built object.
+	 * @throws {TraitNotFoundError} - If a trait is not defined.
+	 */
+	public build(overrides: FactoryOverrides<T> = {}, ...traitNames: string[]): T {
+		const layers = [
+			...traitNames.map((traitName) => cloneDefaults(this.getTrait(traitName))),
+			overrides
+		];
+		const definition = layers.reduce(
+			(merged: object, layer: object) => mergeDefinitions(merged, layer),
+			cloneDefaults(this.definition)
+		);
+		return this.resolve(definition, this.name, this.name);
+	}
+
+	/**
+	 * Builds a number of objects. Sequences advance for each object.
+	 *
+	 * @param {number} count - The number of objects.
+	 * @param {FactoryOverrides<T>} [overrides] - The deep partial overrides applied to every object.
+	 * @param {...string} traitNames - The names of the traits to apply to every object.
+	 * @returns {T[]} - The built objects.
+	 * @throws {TraitNotFoundError} - If a trait is not defined.
+	 */
+	public buildList(count: number, overrides: FactoryOverrides<T> = {}, ...traitNames: string[]): T[] {
+		return Array.from({ length: count }, () => this.build(overrides, ...traitNames));
+	}
+
+	/**
+	 * Restarts every sequence of the factory at 1.
+	 *
+	 * @returns {void}
+	 */
+	public resetSequences(): void {
+		this.sequences.clear();
+	}
+
+	private getTrait(traitName: string): FactoryOverrides<T> {
+		if (!this.traits.has(traitName)) {
+			throw new TraitNotFoundError(this.name, traitName);
+		}
+		return this.traits.get(traitName);
+	}
+
+	private resolve(value: any, path: string, key: string): any {
+		if (value instanceof FactoryField) {
+			return value.resolve({
+				path,
+				key,
+				random: this.random,
+				valueGenerators: this.valueGenerators,
+				nextSequence: () => {
+					const next = (this.sequences.get(path) ?? 0) + 1;
+					this.sequences.set(path, next);
+					return next;
+				}
+			});
+		}
+		if (Array.isArray(value)) {
+			return value.map((item, index) => this.resolve(item, `${path}.${index}`, String(index)));
+		}
+		if (isPlainObject(value)) {
+			return Object.keys(value).reduce((resolved: any, name) => {
+				resolved[name] = this.resolve(value[name], `${path}.${name}`, name);
+				return resolved;
+			}, {});
+		}
+		return value;
+	}
+}
+
+/**
+ * Defines a factory of test data.
+ *
+ * @param {FactoryDefinition<T>} definition - The default values of the fields.
+ * @param {Partial<IFactoryOptions>} [options] - The options of the factory.
+ * @returns {Factory<T>} - The factory.
+ */
+export function defineFactory<T>(definition: FactoryDefinition<T>, options?: Partial<IFactoryOptions>): Factory<T> {
+	return new Factory(definition, options);
+}
+
+/**
+ * Creates a field that numbers the objects a factory builds, starting at 1.
+ *
+ * @example
+ * defineFactory<IUser>({ id: sequence((n) => n), name: sequence((n) => `user ${n}`) });
+ *
+ * @param {Function} build - Creates the value from the number.
+ * @returns {FactoryField<T>} - The field.
+ */
+export function sequence<T>(build: (n: number) => T): FactoryField<T> {
+	return new FactoryField((context) => build(context.nextSequence()));
+}
+
+/**
+ * Creates a field whose value is generated like ``` AutoMocker.mock ``` generates replacements,
+ * so key generators such as the UUIDs of ``` *Id ``` keys apply.
+ *
+ * @param {T} sample - A value of the type to generate, e.g. ``` "" ```, ``` 0 ``` or ``` new Date() ```.
+ * @returns {FactoryField<T>} - The field.
+ */
+export function generated<T extends string | number | boolean | Date>(sample: T): FactoryField<T> {
+	return new FactoryField(({ path, key, random, valueGenerators }) => valueGenerators.generate({
+		path,
+		key,
+		value: sample,
+		type: getGeneratedValueType(sample),
+		random
+	}));
+}
+
+/**
+ * Creates a field built by another factory.
+ *
+ * @param {Factory<T>} factory - The factory of the field.
+ * @param {FactoryOverrides<T>} [overrides] - The overrides passed to the factory.
+ * @param {...string} traitNames - The names of the traits passed to the factory.
+ * @returns {FactoryField<T>} - The field.
+ */
+export function association<T>(factory: Factory<T>, overrides?: FactoryOverrides<T>, ...traitNames: string[]): AssociationField<T> {
+	return new AssociationField(factory, overrides, traitNames);
+}
+
+function mergeDefinitions(target: any, source: any): any {
+	return Object.keys(source).reduce((merged: any, key) => {
+		if (isPlainObject(source[key]) && target[key] instanceof AssociationField) {
+			merged[key] = target[key].withOverrides(source[key]);
+		} else {
+			merged[key] = isPlainObject(source[key]) && isPlainObject(target[key])
+				? mergeDefinitions(target[key], source[key])
+				: source[key];
+		}
+		return merged;
+	}, { ...target });
+}
+
+/**
+ * Copies the values of a definition that would otherwise be shared by every built object.
+ * Fields, functions and primitives are kept; nested plain objects and arrays are copied recursively.
+ *
+ * @param {any} value - The definition or one of its values.
+ * @returns {any} - The copy.
+ */
+function cloneDefaults(value: any): any {
+	if (value === null || typeof value !== "object" || value instanceof FactoryField) {
+		return value;
+	}
+	if (Array.isArray(value)) {
+		return value.map(cloneDefaults);
+	}
+	if (isPlainObject(value)) {
+		return Object.keys(value).reduce((copy: any, key) => {
+			copy[key] = cloneDefaults(value[key]);
+			return copy;
+		}, {});
+	}
+	if (value instanceof Date) {
+		return new Date(value.getTime());
+	}
+	if (value instanceof Map) {
+		return new Map(value);
+	}
+	if (value instanceof Set) {
+		return new Set(value);
+	}
+	return Object.assign(Object.create(Object.getPrototypeOf(value)), value);
+}
+
+function isPlainObject(value: any): boolean {
+	if (value === null || typeof value !== "object") {
+		return false;
+	}
+	const proto = Object.getPrototypeOf(value);
+	return proto === Object.prototype || proto === null;
+}
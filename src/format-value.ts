@@ -0,0 +1,63 @@
+/**
+ * Formats a value for use in error and diagnostic messages.
+ *
+ * @param {any} value - The value to format.
+ * @returns {string} - A compact, human-readable representation of the value.
+ */
+export function formatValue(value: any): string {
+	if (typeof value === "function") {
+		return `[Function ${value.name || "anonymous"}]`;
+	}
+	if (typeof value === "bigint") {
+		return `${value}n`;
+	}
+	if (value instanceof Error) {
+		return `${value.name}: ${value.message}`;
+	}
+	if (hasCustomDescription(value)) {
+		return describe(value);
+	}
+	try {
+		const json = JSON.stringify(value, (_, nested) =>
+			hasCustomDescription(nested) ? describe(nested) : nested
+		);
+		return json === undefined ? String(value) : json;
+	} catch {
+		return String(value);
+	}
+}
+
+/**
+ * Formats a list of call arguments for use in error and diagnostic messages.
+ *
+ * @param {any[]} args - The arguments to format.
+ * @returns {string} - The formatted arguments, wrapped in parentheses.
+ */
+export function formatArguments(args: readonly any[]): string {
+	return `(${args.map((arg) => formatValue(arg)).join(", ")})`;
+}
+
+/**
+ * Describes a value through its ``` jasmineToString ``` method. Jasmine asymmetric testers expect a pretty-printer,
+ * so one is passed; a description that still fails falls back to the name of the value's type.
+ *
+ * @param {object} value - The value to describe.
+ * @returns {string} - The description.
+ */
+function describe(value: { jasmineToString(pp: (nested: any) => string): string }): string {
+	try {
+		return value.jasmineToString((nested) => formatValue(nested));
+	} catch {
+		return `[${value.constructor?.name || "object"}]`;
+	}
+}
+
+/**
+ * Checks whether a value describes itself, as argument matchers and Jasmine asymmetric testers do.
+ *
+ * @param {any} value - The value to check.
+ * @returns {boolean} - True if the value has a ``` jasmineToString ``` method.
+ */
+function hasCustomDescription(value: any): value is { jasmineToString(pp: (nested: any) => string): string } {
+	return !!value && typeof value.jasmineToString === "function";
+}
@@ -1,4 +1,18 @@
-export { IMockClassOptions } from "./autoMocker";
+export { IMockClassOptions, IMockOptions, MockMethodMode, IReplacedValueTypes, IAutoMockerOptions, IMockMembers, IMockInterfaceOptions, INestedMockDefinition, NestedMocks, NestedMockType, IMockStaticsOptions, StaticMemberNames, IPartialMockOptions, ISutDependencyDefinition, SutDependency, SutDependencyType, SutMocks, SutOverrides, ISut } from "./autoMocker";
 export { readObservableSynchronously, readObservableCompletionSynchronously, readObservableErrorSynchronously, readObservableSynchronouslyAfterAction } from './read-observable-synchronously';
 export { TestSubscriptionCounter } from './test-subscription-counter';
-export { AutoMockerPlus, defaultAutoMockerInstance, ISubjectCounter } from './auto-mocker-plus';
\ No newline at end of file
+export { AutoMockerPlus, defaultAutoMockerInstance, ISubjectCounter, BuiltReturnType } from './auto-mocker-plus';
+export { ISpyAdapter, ISpyCall, JasmineSpyAdapter, JestSpyAdapter, IJestLike, IJestMockFunction, BuiltInSpyAdapter, BehaviorRecordingSpyAdapter, detectSpyAdapter } from "./spy-adapters";
+export { MockSetup, MethodSetup, PropertySetup } from "./mock-setup";
+export { MockSetupPlus, MethodSetupPlus } from "./mock-setup-plus";
+export { ArgumentMatcher, ArgumentsOrMatchers, IAsymmetricMatcher, FirstArgReturnMap, UnmatchedArgumentsFallback, anyOfType, partialObject, satisfies, matchesRegex, arrayContaining, argumentMatches } from "./argument-matchers";
+export { IOrderedCallExpectation } from "./call-order";
+export { VerificationMode, times, atLeast, atMost, never } from "./verification";
+export { IRegisteredMock } from "./mock-registry";
+export { MockSandbox } from "./mock-sandbox";
+export { registerAutoMockerHooks } from "./spec-hooks";
+export { IMockMemberDescription } from "./describe-mock";
+export { IInteractionSnapshotOptions } from "./interaction-snapshot";
+export { AutoMockerError, AutoMockerErrorCode, NotASpyError, AccessorNotFoundError, MethodNotFoundError, CallNotFoundError, UnmatchedArgumentsError, UnconfiguredStrictSpyError, VerificationError, SnapshotMismatchError, SnapshotMissingError, SnapshotEnvironmentError, ObservableDidNotEmitError, TraitNotFoundError, NestedMockNotFoundError, NotAMockedConstructorError, ConstructedInstanceNotFoundError, MemberNotSpiableError, InvalidDependencyError, DependencyNotFoundError, AmbiguousDependencyError, AfterEachNotAvailableError } from "./errors";
+export { ValueGeneratorRegistry, ValueGenerator, IValueGeneratorContext, GeneratedValueType, uuid, email, relativeDate, oneOf, enumValue } from "./value-generators";
+export { Factory, FactoryField, AssociationField, FactoryDefinition, FactoryValue, FactoryOverrides, IFactoryFieldContext, IFactoryOptions, defineFactory, sequence, generated, association } from "./factory";
\ No newline at end of file
@@ -0,0 +1,201 @@
+import { isObservable } from "rxjs";
+import { SnapshotEnvironmentError, SnapshotMismatchError, SnapshotMissingError } from "./errors";
+import { formatArguments, formatValue } from "./format-value";
+import { ISpyCall } from "./spy-adapters";
+
+/**
+ * Options for ``` AutoMocker.expectInteractionsToMatchSnapshot ```.
+ */
+export interface IInteractionSnapshotOptions {
+	/**
+	 * The directory of the spec. Snapshots are stored in its ``` __snapshots__ ``` subdirectory.
+	 * Defaults to the directory of the source file that called ``` expectInteractionsToMatchSnapshot ```.
+	 * Compiled specs are traced back to their source through the source map next to them.
+	 */
+	snapshotDirectory?: string;
+	/**
+	 * Whether to rewrite the snapshot with the recorded interactions instead of comparing against it.
+	 * Defaults to true when the ``` UPDATE_SNAPSHOTS ``` environment variable is set to ``` 1 ``` or ``` true ```.
+	 */
+	update?: boolean;
+	/**
+	 * Whether specs run on a CI server, where a missing snapshot fails instead of being written,
+	 * as a snapshot that was never committed could otherwise never fail.
+	 * Defaults to true when the ``` CI ``` environment variable is set to anything but ``` 0 ``` or ``` false ```.
+	 */
+	ci?: boolean;
+}
+
+/**
+ * A spy whose calls are included in an interaction snapshot.
+ */
+export interface ISnapshotSpy {
+	/**
+	 * The name printed for the calls of the spy, e.g. ``` Repository.load ```.
+	 */
+	readonly name: string;
+	/**
+	 * The calls recorded by the spy.
+	 */
+	readonly calls: readonly ISpyCall[];
+}
+
+interface ISnapshotEntry {
+	readonly name: string;
+	readonly index: number;
+	readonly call: ISpyCall;
+}
+
+/**
+ * Serializes the calls of the given spies, one line per call in the order the calls were made.
+ * Return values are included when the spy adapter recorded them.
+ *
+ * @example
+ * Repository.load #0: (1) => "one"
+ * Notifier.send #0: ("loaded")
+ * Repository.load #1: (2) => "two"
+ *
+ * @param {ISnapshotSpy[]} spies - The spies to serialize.
+ * @returns {string} - The serialized interactions.
+ */
+export function serializeInteractions(spies: readonly ISnapshotSpy[]): string {
+	const entries: ISnapshotEntry[] = [];
+	spies.forEach(({ name, calls }) => calls.forEach((call, index) => entries.push({ name, index, call })));
+	entries.sort((a, b) => a.call.invocationOrder - b.call.invocationOrder);
+
+	const lines = entries.map(({ name, index, call }) =>
+		`${name} #${index}: ${formatArguments(call.args)}${call.returnValue === undefined ? "" : ` => ${describeReturnValue(call.returnValue)}`}`
+	);
+	return `${lines.length ? lines.join("\n") : "(no calls)"}\n`;
+}
+
+/**
+ * Compares serialized interactions against the snapshot file with the given name, writing the file if the snapshot is
+ * being updated, or if it does not exist yet and specs do not run on a CI server.
+ *
+ * @param {string} serialized - The serialized interactions.
+ * @param {string} snapshotName - The name of the snapshot, used as its file name.
+ * @param {IInteractionSnapshotOptions} options - Where the snapshot is stored and whether to update it.
+ * @param {number} [seed] - The seed of the values generated by the AutoMocker, added to the failure message.
+ * @returns {void}
+ * @throws {SnapshotMismatchError} - If the interactions differ from the snapshot. The message contains a line diff.
+ * @throws {SnapshotMissingError} - If the snapshot does not exist on a CI server.
+ * @throws {SnapshotEnvironmentError} - If the specs do not run under Node, or the directory of the spec cannot be determined.
+ */
+export function matchInteractionSnapshot(
+	serialized: string,
+	snapshotName: string,
+	options: IInteractionSnapshotOptions,
+	seed?: number
+): void {
+	if (typeof require !== "function") {
+		throw new SnapshotEnvironmentError("Interaction snapshots need file system access and can only be used when specs run under Node.");
+	}
+	const fs: typeof import("fs") = require("fs");
+	const path: typeof import("path") = require("path");
+
+	const directory = path.join(options.snapshotDirectory ?? getCallerDirectory(), "__snapshots__");
+	const snapshotPath = path.join(directory, `${snapshotName.replace(/[^\w.-]+/g, "-")}.snap`);
+	const update = options.update ?? ["1", "true"].includes(process.env.UPDATE_SNAPSHOTS);
+	const ci = options.ci ?? (!!process.env.CI && !["0", "false"].includes(process.env.CI));
+	const exists = fs.existsSync(snapshotPath);
+
+	if (!update && !exists && ci) {
+		throw new SnapshotMissingError(snapshotName, snapshotPath, seed);
+	}
+	if (update || !exists) {
+		fs.mkdirSync(directory, { recursive: true });
+		fs.writeFileSync(snapshotPath, serialized, "utf-8");
+		return;
+	}
+
+	const expected = fs.readFileSync(snapshotPath, "utf-8");
+	if (expected !== serialized) {
+		throw new SnapshotMismatchError(snapshotName, snapshotPath, diffLines(expected, serialized), seed);
+	}
+}
+
+/**
+ * Creates a line diff of two texts, prefixing removed lines with ``` - ```, added lines with ``` + ```
+ * and unchanged lines with two spaces.
+ *
+ * @param {string} expected - The original text.
+ * @param {string} actual - The changed text.
+ * @returns {string} - The diff.
+ */
+export function diffLines(expected: string, actual: string): string {
+	const expectedLines = expected.replace(/\n$/, "").split("\n");
+	const actualLines = actual.replace(/\n$/, "").split("\n");
+
+	// Lengths of the longest common subsequences of the remaining lines, computed from the end.
+	const common: number[][] = expectedLines.map(() => new Array(actualLines.length + 1).fill(0));
+	common.push(new Array(actualLines.length + 1).fill(0));
+	for (let i = expectedLines.length - 1; i >= 0; i--) {
+		for (let j = actualLines.length - 1; j >= 0; j--) {
+			common[i][j] = expectedLines[i] === actualLines[j]
+				? common[i + 1][j + 1] + 1
+				: Math.max(common[i + 1][j], common[i][j + 1]);
+		}
+	}
+
+	const diff: string[] = [];
+	let i = 0;
+	let j = 0;
+	while (i < expectedLines.length || j < actualLines.length) {
+		if (i < expectedLines.length && j < actualLines.length && expectedLines[i] === actualLines[j]) {
+			diff.push(`  ${expectedLines[i++]}`);
+			j++;
+		} else if (i < expectedLines.length && (j === actualLines.length || common[i + 1][j] >= common[i][j + 1])) {
+			diff.push(`- ${expectedLines[i++]}`);
+		} else {
+			diff.push(`+ ${actualLines[j++]}`);
+		}
+	}
+	return diff.join("\n");
+}
+
+function describeReturnValue(value: any): string {
+	if (isObservable(value)) {
+		return "[Observable]";
+	}
+	if (value instanceof Promise) {
+		return "[Promise]";
+	}
+	return formatValue(value);
+}
+
+/**
+ * Finds the directory of the first file on the call stack outside this library, or of its source file if it was compiled.
+ *
+ * @returns {string} - The directory.
+ */
+function getCallerDirectory(): string {
+	const path: typeof import("path") = require("path");
+	const libraryDirectory = __dirname;
+	const caller = (new Error().stack || "")
+		.split("\n")
+		.map((line) => /\(?(?:file:\/\/)?((?:[A-Za-z]:)?[^\s():]+):\d+:\d+\)?$/.exec(line.trim())?.[1])
+		.find((file) => file && path.isAbsolute(file) && path.dirname(file) !== libraryDirectory);
+	if (!caller) {
+		throw new SnapshotEnvironmentError("Unable to determine the directory of the spec. Pass the snapshotDirectory option.");
+	}
+	return path.dirname(getSourceFile(caller));
+}
+
+/**
+ * Traces a compiled file back to its source through the source map next to it.
+ *
+ * @param {string} file - The compiled file.
+ * @returns {string} - The source file, or the file itself when it has no readable source map.
+ */
+function getSourceFile(file: string): string {
+	const fs: typeof import("fs") = require("fs");
+	const path: typeof import("path") = require("path");
+	try {
+		const sourceMap = JSON.parse(fs.readFileSync(`${file}.map`, "utf-8"));
+		const [source] = sourceMap.sources ?? [];
+		return source ? path.resolve(path.dirname(file), sourceMap.sourceRoot ?? "", source) : file;
+	} catch {
+		return file;
+	}
+}
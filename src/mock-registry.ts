@@ -0,0 +1,178 @@
+/**
+ * A mock created by an AutoMocker, together with the spies created for it.
+ */
+export interface IRegisteredMock {
+	/**
+	 * The mock, or the real object mocked in place by ``` AutoMocker.mock ```.
+	 */
+	readonly mock: object;
+	/**
+	 * The class name or object name the mock was created with.
+	 */
+	readonly name: string;
+	/**
+	 * The spies created for the methods and accessors of the mock.
+	 */
+	readonly spies: readonly Function[];
+}
+
+interface IRegistryEntry extends IRegisteredMock {
+	readonly spies: Function[];
+	readonly replacedProperties: Map<PropertyKey, any>;
+}
+
+/**
+ * Keeps track of the mocks and spies created by an AutoMocker, so they can be reset together.
+ */
+export class MockRegistry {
+	private readonly entries = new Map<object, IRegistryEntry>();
+	private readonly defaultBehaviors = new WeakMap<Function, () => void>();
+	private readonly spyNames = new WeakMap<Function, string>();
+
+	/**
+	 * Registers a mock. Registering a mock again keeps its spies.
+	 *
+	 * @param {object} mock - The mock to register.
+	 * @param {string} name - The name of the mock.
+	 * @returns {void}
+	 */
+	public register(mock: object, name: string): void {
+		this.getOrCreateEntry(mock, name);
+	}
+
+	/**
+	 * Registers a spy created for a mock, registering the mock if needed.
+	 *
+	 * @param {object} mock - The mock the spy belongs to.
+	 * @param {string} name - The name of the mock, used if it was not registered yet.
+	 * @param {Function} spy - The spy.
+	 * @param {string} [spyName] - The identity of the spy used in diagnostics, e.g. ``` Repository.load ```.
+	 * @returns {void}
+	 */
+	public addSpy(mock: object, name: string, spy: Function, spyName?: string): void {
+		const entry = this.getOrCreateEntry(mock, name);
+		if (!entry.spies.includes(spy)) {
+			entry.spies.push(spy);
+		}
+		if (spyName) {
+			this.spyNames.set(spy, spyName);
+		}
+	}
+
+	/**
+	 * Retrieves the identity a spy was registered with.
+	 *
+	 * @param {Function} spy - The spy.
+	 * @returns {string | undefined} - The identity, or undefined if the spy was registered without one.
+	 */
+	public getSpyName(spy: Function): string | undefined {
+		return this.spyNames.get(spy);
+	}
+
+	/**
+	 * Sets the behavior a spy is given back when the behaviors of all spies are reset.
+	 *
+	 * @param {Function} spy - The spy.
+	 * @param {Function} applyBehavior - Configures the spy with its default behavior.
+	 * @returns {void}
+	 */
+	public setDefaultBehavior(spy: Function, applyBehavior: () => void): void {
+		this.defaultBehaviors.set(spy, applyBehavior);
+	}
+
+	/**
+	 * Records the value of a property before it is replaced, keeping the first recorded value.
+	 *
+	 * @param {object} mock - The mock the property belongs to.
+	 * @param {string} name - The name of the mock, used if it was not registered yet.
+	 * @param {PropertyKey} key - The name of the property.
+	 * @returns {void}
+	 */
+	public recordReplacedProperty(mock: object, name: string, key: PropertyKey): void {
+		const entry = this.getOrCreateEntry(mock, name);
+		if (!entry.replacedProperties.has(key)) {
+			entry.replacedProperties.set(key, (mock as any)[key]);
+		}
+	}
+
+	/**
+	 * Applies the default behavior of a spy, if it has one.
+	 *
+	 * @param {Function} spy - The spy.
+	 * @returns {void}
+	 */
+	public applyDefaultBehavior(spy: Function): void {
+		this.defaultBehaviors.get(spy)?.();
+	}
+
+	/**
+	 * Puts back the values of all recorded properties.
+	 *
+	 * @returns {void}
+	 */
+	public restoreReplacedProperties(): void {
+		this.entries.forEach((entry) => {
+			entry.replacedProperties.forEach((value, key) => {
+				(entry.mock as any)[key] = value;
+			});
+			entry.replacedProperties.clear();
+		});
+	}
+
+	/**
+	 * Checks whether a mock is registered.
+	 *
+	 * @param {any} mock - The value to check.
+	 * @returns {boolean} - True if the value is a registered mock.
+	 */
+	public has(mock: any): boolean {
+		return this.entries.has(mock);
+	}
+
+	/**
+	 * Retrieves the registered mocks, in the order they were registered.
+	 *
+	 * @returns {IRegisteredMock[]} - The registered mocks.
+	 */
+	public getMocks(): IRegisteredMock[] {
+		return Array.from(this.entries.values(), ({ mock, name, spies }) => ({ mock, name, spies: [...spies] }));
+	}
+
+	/**
+	 * Retrieves the spies registered for a mock.
+	 *
+	 * @param {object} mock - The mock.
+	 * @returns {Function[]} - The spies, or an empty array if the mock is not registered.
+	 */
+	public getSpies(mock: object): Function[] {
+		return [...(this.entries.get(mock)?.spies || [])];
+	}
+
+	/**
+	 * Retrieves the spies of every registered mock.
+	 *
+	 * @returns {Function[]} - The spies.
+	 */
+	public getAllSpies(): Function[] {
+		return Array.from(this.entries.values()).reduce((spies, entry) => spies.concat(entry.spies), [] as Function[]);
+	}
+
+	/**
+	 * Forgets every registered mock, so the registry no longer keeps them alive.
+	 * Spy names and default behaviors are held weakly and stay available while the spies live.
+	 *
+	 * @returns {void}
+	 */
+	public clear(): void {
+		this.entries.clear();
+	}
+
+	private getOrCreateEntry(mock: object, name: string): IRegistryEntry {
+		let entry = this.entries.get(mock);
+		if (!entry) {
+			entry = { mock, name, spies: [], replacedProperties: new Map() };
+			this.entries.set(mock, entry);
+		}
+		return entry;
+	}
+}
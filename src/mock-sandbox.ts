@@ -0,0 +1,79 @@
+import { addAfterSpecAction, areAutoMockerHooksRegistered } from "./spec-hooks";
+
+const sandboxesToRestore: MockSandbox[] = [];
+addAfterSpecAction(() => sandboxesToRestore.splice(0).forEach((sandbox) => sandbox.restore()));
+
+interface IReplacedProperty {
+	readonly target: object;
+	readonly key: PropertyKey;
+	readonly descriptor: PropertyDescriptor | undefined;
+}
+
+/**
+ * Records the properties replaced while mocking real objects, so they can be put back.
+ *
+ * @example
+ * const sandbox = autoMocker.mock("config", config);
+ * // ...
+ * sandbox.restore();
+ */
+export class MockSandbox {
+	private readonly replacedProperties: IReplacedProperty[] = [];
+
+	/**
+	 * @param {number} [seed] - The seed the values of ``` AutoMocker.mock ``` were generated with, if any.
+	 * Log it from a failing spec and pass it back through the ``` seed ``` option to replay the same values.
+	 */
+	constructor(public readonly seed?: number) {}
+
+	/**
+	 * Records the own property descriptor of a property before it is replaced.
+	 * Only the first recording of a property is kept, so the original is restored.
+	 *
+	 * @param {object} target - The object that owns the property.
+	 * @param {PropertyKey} key - The name of the property.
+	 * @returns {void}
+	 */
+	public record(target: object, key: PropertyKey): void {
+		if (this.replacedProperties.some((property) => property.target === target && property.key === key)) {
+			return;
+		}
+		this.replacedProperties.push({ target, key, descriptor: Object.getOwnPropertyDescriptor(target, key) });
+	}
+
+	/**
+	 * Puts back every recorded property: fields, methods and accessor descriptors.
+	 * Properties that did not exist on their object before are deleted.
+	 *
+	 * @returns {void}
+	 */
+	public restore(): void {
+		this.replacedProperties.reverse().forEach(({ target, key, descriptor }) => {
+			try {
+				if (descriptor) {
+					Object.defineProperty(target, key, descriptor);
+				} else {
+					delete (target as any)[key];
+				}
+			} catch (e) {
+				/* istanbul ignore next */
+				console.error(`Unable to restore ${String(key)}`);
+			}
+		});
+		this.replacedProperties.length = 0;
+	}
+
+	/**
+	 * Restores the sandbox at the end of the current spec, through the hook of ``` registerAutoMockerHooks ```.
+	 * Warns when the hook is not registered and the sandbox replaced properties, as ``` restore ``` then has to be called explicitly.
+	 *
+	 * @returns {this} - The sandbox, for chaining.
+	 */
+	public restoreAfterSpec(): this {
+		if (!areAutoMockerHooksRegistered() && this.replacedProperties.length) {
+			console.warn("Call registerAutoMockerHooks to restore the mocks after each spec, or call restore on the sandbox.");
+		}
+		sandboxesToRestore.push(this);
+		return this;
+	}
+}
@@ -0,0 +1,131 @@
+import { MethodNames } from "@types-local";
+import { Observable } from "rxjs";
+import { AutoMockerPlus } from "./auto-mocker-plus";
+import { MethodOf, MethodSetup, MockSetup } from "./mock-setup";
+import { FirstArgReturnMap, UnmatchedArgumentsFallback } from "./argument-matchers";
+
+type ObservableValue<F> = F extends (...args: any[]) => Observable<infer U> ? U : never;
+type PromiseValue<F> = F extends (...args: any[]) => Promise<infer U> ? U : never;
+
+/**
+ * Fluent builder for configuring many spies on one mock, including the observable and promise helpers of AutoMockerPlus.
+ *
+ * @template T - The type of the mock.
+ */
+export class MockSetupPlus<T> extends MockSetup<T> {
+	constructor(
+		protected readonly autoMocker: AutoMockerPlus,
+		mock: T,
+		mockName: string
+	) {
+		super(autoMocker, mock, mockName);
+	}
+
+	/**
+	 * Starts configuring the spy of a method.
+	 *
+	 * @param {K} key - The name of the method.
+	 * @returns {MethodSetupPlus} - The builder for the method.
+	 */
+	public method<K extends MethodNames<T>>(key: K): MethodSetupPlus<T, K, this> {
+		return new MethodSetupPlus(this.autoMocker, this, this.mock[key] as MethodOf<T, K>, this.getSpyName(key));
+	}
+}
+
+/**
+ * Configures the spy of a single method, including the observable and promise helpers of AutoMockerPlus.
+ *
+ * @template T - The type of the mock.
+ * @template K - The name of the method.
+ * @template TSetup - The type of the parent builder.
+ */
+export class MethodSetupPlus<T, K extends MethodNames<T>, TSetup extends MockSetup<T>> extends MethodSetup<T, K, TSetup> {
+	constructor(
+		protected readonly autoMocker: AutoMockerPlus,
+		parent: TSetup,
+		spy: MethodOf<T, K>,
+		spyName: string
+	) {
+		super(autoMocker, parent, spy, spyName);
+	}
+
+	/**
+	 * Backed by ``` withReturnObservable ```.
+	 *
+	 * @param {ObservableValue} [value] - The value the observable emits.
+	 * @returns {TSetup} - The parent builder.
+	 */
+	public returnsObservable(value?: ObservableValue<MethodOf<T, K>>): TSetup {
+		this.autoMocker.withReturnObservable(this.spy, value, this.spyName);
+		return this.parent;
+	}
+
+	/**
+	 * Backed by ``` withReturnObservables ```.
+	 *
+	 * @param {ObservableValue[]} values - The values emitted by the observables returned for each call, in order.
+	 * @returns {TSetup} - The parent builder.
+	 */
+	public returnsObservables(values: ObservableValue<MethodOf<T, K>>[]): TSetup {
+		this.autoMocker.withReturnObservables(this.spy, values, this.spyName);
+		return this.parent;
+	}
+
+	/**
+	 * Backed by ``` withReturnNonEmittingObservable ```.
+	 *
+	 * @returns {TSetup} - The parent builder.
+	 */
+	public returnsNonEmittingObservable(): TSetup {
+		this.autoMocker.withReturnNonEmittingObservable(this.spy, this.spyName);
+		return this.parent;
+	}
+
+	/**
+	 * Backed by ``` withReturnThrowObservable ```.
+	 *
+	 * @param {any} [error] - The error the observable emits.
+	 * @returns {TSetup} - The parent builder.
+	 */
+	public throwsObservable(error?: any): TSetup {
+		this.autoMocker.withReturnThrowObservable(this.spy, error, this.spyName);
+		return this.parent;
+	}
+
+	/**
+	 * Backed by ``` withFirstArgMappedReturnObservable ```.
+	 *
+	 * @param {FirstArgReturnMap} returnMap - Maps first argument values, or matchers, to emitted values.
+	 * @param {ObservableValue | UnmatchedArgumentsFallback} [defaultReturn] - The value to emit when the first argument has no mapping, or the fallback to apply.
+	 * @returns {TSetup} - The parent builder.
+	 */
+	public returnsMappedObservableByFirstArg(
+		returnMap: FirstArgReturnMap<ObservableValue<MethodOf<T, K>>>,
+		defaultReturn?: ObservableValue<MethodOf<T, K>> | UnmatchedArgumentsFallback
+	): TSetup {
+		this.autoMocker.withFirstArgMappedReturnObservable(this.spy, returnMap, defaultReturn, this.spyName);
+		return this.parent;
+	}
+
+	/**
+	 * Backed by ``` withReturnPromise ```.
+	 *
+	 * @param {PromiseValue} [value] - The value the promise resolves with.
+	 * @returns {TSetup} - The parent builder.
+	 */
+	public returnsPromise(value?: PromiseValue<MethodOf<T, K>>): TSetup {
+		this.autoMocker.withReturnPromise(this.spy, value, this.spyName);
+		return this.parent;
+	}
+
+	/**
+	 * Backed by ``` withReturnRejectedPromise ```.
+	 *
+	 * @param {any} [error] - The value the promise rejects with.
+	 * @returns {TSetup} - The parent builder.
+	 */
+	public returnsRejectedPromise(error?: any): TSetup {
+		this.autoMocker.withReturnRejectedPromise(this.spy, error, this.spyName);
+		return this.parent;
+	}
+}
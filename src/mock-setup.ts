@@ -0,0 +1,248 @@
+import { Accessor, MethodNames } from "@types-local";
+import { AutoMocker } from "./autoMocker";
+import { ArgumentsOrMatchers, FirstArgReturnMap, UnmatchedArgumentsFallback } from "./argument-matchers";
+
+/**
+ * The function type of the method `K` of `T`.
+ */
+export type MethodOf<T, K extends keyof T> = T[K] extends (...args: any[]) => any ? T[K] : never;
+
+/**
+ * Fluent builder for configuring many spies on one mock.
+ * Every call is backed by the matching ``` with* ``` method of the AutoMocker, with the spy name inferred from the mock.
+ *
+ * @example
+ * autoMocker.setup(mock)
+ *     .method("load").returns(value)
+ *     .property("isReady").returns(true)
+ *     .method("save").throws("failed");
+ *
+ * @template T - The type of the mock.
+ */
+export class MockSetup<T> {
+	constructor(
+		protected readonly autoMocker: AutoMocker,
+		protected readonly mock: T,
+		protected readonly mockName: string
+	) {}
+
+	/**
+	 * Starts configuring the spy of a method.
+	 *
+	 * @param {K} key - The name of the method.
+	 * @returns {MethodSetup} - The builder for the method.
+	 */
+	public method<K extends MethodNames<T>>(key: K): MethodSetup<T, K, this> {
+		return new MethodSetup(this.autoMocker, this, this.mock[key] as MethodOf<T, K>, this.getSpyName(key));
+	}
+
+	/**
+	 * Starts configuring the accessor spies of a property.
+	 *
+	 * @param {K} key - The name of the property.
+	 * @returns {PropertySetup} - The builder for the property.
+	 */
+	public property<K extends keyof T>(key: K): PropertySetup<T, K, this> {
+		return new PropertySetup(this.autoMocker, this, this.mock, key, this.getSpyName(key));
+	}
+
+	/**
+	 * Returns the configured mock, ending the chain.
+	 *
+	 * @returns {T} - The mock.
+	 */
+	public done(): T {
+		return this.mock;
+	}
+
+	protected getSpyName(key: keyof T): string {
+		return `${this.mockName}.${String(key)}`;
+	}
+}
+
+/**
+ * Configures the spy of a single method. Every configuration call returns the parent builder.
+ *
+ * @template T - The type of the mock.
+ * @template K - The name of the method.
+ * @template TSetup - The type of the parent builder.
+ */
+export class MethodSetup<T, K extends MethodNames<T>, TSetup extends MockSetup<T>> {
+	constructor(
+		protected readonly autoMocker: AutoMocker,
+		protected readonly parent: TSetup,
+		protected readonly spy: MethodOf<T, K>,
+		protected readonly spyName: string
+	) {}
+
+	/**
+	 * Backed by ``` withReturnValue ```.
+	 *
+	 * @param {ReturnType} value - The value to return.
+	 * @returns {TSetup} - The parent builder.
+	 */
+	public returns(value: ReturnType<MethodOf<T, K>>): TSetup {
+		this.autoMocker.withReturnValue(this.spy, value, this.spyName);
+		return this.parent;
+	}
+
+	/**
+	 * Backed by ``` withReturnValues ```.
+	 *
+	 * @param {ReturnType[]} values - The values to return, in order.
+	 * @returns {TSetup} - The parent builder.
+	 */
+	public returnsValues(values: ReturnType<MethodOf<T, K>>[]): TSetup {
+		this.autoMocker.withReturnValues(this.spy, values, this.spyName);
+		return this.parent;
+	}
+
+	/**
+	 * Backed by ``` withReturnForArguments ```.
+	 *
+	 * @param {ArgumentsOrMatchers} args - The arguments, or argument matchers, to match.
+	 * @param {ReturnType} value - The value to return for the arguments.
+	 * @returns {TSetup} - The parent builder.
+	 */
+	public returnsForArguments(
+		args: ArgumentsOrMatchers<[...Parameters<MethodOf<T, K>>]>,
+		value: ReturnType<MethodOf<T, K>>
+	): TSetup {
+		this.autoMocker.withReturnForArguments(this.spy, args, value, this.spyName);
+		return this.parent;
+	}
+
+	/**
+	 * Backed by ``` withUnmatchedArgumentsFallback ```.
+	 *
+	 * @param {UnmatchedArgumentsFallback} fallback - What to do when the arguments match nothing.
+	 * @returns {TSetup} - The parent builder.
+	 */
+	public whenUnmatched(fallback: UnmatchedArgumentsFallback): TSetup {
+		this.autoMocker.withUnmatchedArgumentsFallback(this.spy, fallback, this.spyName);
+		return this.parent;
+	}
+
+	/**
+	 * Backed by ``` withFirstArgMappedReturn ```.
+	 *
+	 * @param {FirstArgReturnMap} returnMap - Maps first argument values, or matchers, to return values.
+	 * @param {ReturnType | UnmatchedArgumentsFallback} [defaultReturn] - The value to return when the first argument has no mapping, or the fallback to apply.
+	 * @returns {TSetup} - The parent builder.
+	 */
+	public returnsMappedByFirstArg(
+		returnMap: FirstArgReturnMap<ReturnType<MethodOf<T, K>>>,
+		defaultReturn?: ReturnType<MethodOf<T, K>> | UnmatchedArgumentsFallback
+	): TSetup {
+		this.autoMocker.withFirstArgMappedReturn(this.spy, returnMap, defaultReturn, this.spyName);
+		return this.parent;
+	}
+
+	/**
+	 * Backed by ``` withCallFake ```.
+	 *
+	 * @param {Function} fakeFunction - The function to call instead of the method.
+	 * @returns {TSetup} - The parent builder.
+	 */
+	public callsFake(
+		fakeFunction: (...params: Parameters<MethodOf<T, K>>) => ReturnType<MethodOf<T, K>>
+	): TSetup {
+		this.autoMocker.withCallFake(this.spy, fakeFunction, this.spyName);
+		return this.parent;
+	}
+
+	/**
+	 * Backed by ``` withCallThrough ```.
+	 *
+	 * @returns {TSetup} - The parent builder.
+	 */
+	public callsThrough(): TSetup {
+		this.autoMocker.withCallThrough(this.spy, this.spyName);
+		return this.parent;
+	}
+
+	/**
+	 * Backed by ``` withThrows ```.
+	 *
+	 * @param {string} [message] - The message of the error to throw.
+	 * @returns {TSetup} - The parent builder.
+	 */
+	public throws(message?: string): TSetup {
+		this.autoMocker.withThrows(this.spy, message, this.spyName);
+		return this.parent;
+	}
+}
+
+/**
+ * Configures the accessor spies of a single property. Every configuration call returns the parent builder.
+ *
+ * @template T - The type of the mock.
+ * @template K - The name of the property.
+ * @template TSetup - The type of the parent builder.
+ */
+export class PropertySetup<T, K extends keyof T, TSetup extends MockSetup<T>> {
+	constructor(
+		protected readonly autoMocker: AutoMocker,
+		protected readonly parent: TSetup,
+		protected readonly mock: T,
+		protected readonly key: K,
+		protected readonly spyName: string
+	) {}
+
+	/**
+	 * Backed by ``` withReturnGetterValue ```.
+	 *
+	 * @param {T[K]} value - The value the getter returns.
+	 * @returns {TSetup} - The parent builder.
+	 */
+	public returns(value: T[K]): TSetup {
+		this.autoMocker.withReturnGetterValue(this.mock, this.key, value, this.spyName);
+		return this.parent;
+	}
+
+	/**
+	 * Backed by ``` withReturnGetterValues ```.
+	 *
+	 * @param {T[K][]} values - The values the getter returns, in order.
+	 * @returns {TSetup} - The parent builder.
+	 */
+	public returnsValues(values: T[K][]): TSetup {
+		this.autoMocker.withReturnGetterValues(this.mock, this.key, values, this.spyName);
+		return this.parent;
+	}
+
+	/**
+	 * Backed by ``` withCallAccessorFake ```.
+	 *
+	 * @param {Function} fakeFunction - The function to call instead of the accessor.
+	 * @param {Accessor} [accessor="get"] - The accessor to configure.
+	 * @returns {TSetup} - The parent builder.
+	 */
+	public callsFake(fakeFunction: (...params: any[]) => any, accessor: Accessor = "get"): TSetup {
+		this.autoMocker.withCallAccessorFake(this.mock, this.key, accessor, fakeFunction, this.spyName);
+		return this.parent;
+	}
+
+	/**
+	 * Backed by ``` withCallAccessorThrough ```.
+	 *
+	 * @param {Accessor} [accessor="get"] - The accessor to configure.
+	 * @returns {TSetup} - The parent builder.
+	 */
+	public callsThrough(accessor: Accessor = "get"): TSetup {
+		this.autoMocker.withCallAccessorThrough(this.mock, this.key, accessor, this.spyName);
+		return this.parent;
+	}
+
+	/**
+	 * Backed by ``` withAccessorThrows ```.
+	 *
+	 * @param {string} [message] - The message of the error to throw.
+	 * @param {Accessor} [accessor="get"] - The accessor to configure.
+	 * @returns {TSetup} - The parent builder.
+	 */
+	public throws(message?: string, accessor: Accessor = "get"): TSetup {
+		this.autoMocker.withAccessorThrows(this.mock, this.key, accessor, message, this.spyName);
+		return this.parent;
+	}
+}
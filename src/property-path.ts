@@ -0,0 +1,91 @@
+/**
+ * Decides which properties ``` AutoMocker.mock ``` visits, based on include and exclude globs.
+ * Paths start with the object name and separate keys with dots, e.g. ``` config.http.timeout ``` or ``` config.servers.0 ```.
+ * In globs, ``` * ``` matches any part of one key and ``` ** ``` matches any number of keys.
+ *
+ * @example
+ * const filter = new PropertyPathFilter(["config.http.*"], ["config.http.agent"]);
+ * filter.isIncluded("config.http.timeout"); // true
+ * filter.isIncluded("config.http.agent"); // false
+ * filter.shouldTraverse("config.http"); // true, as its properties are included
+ */
+export class PropertyPathFilter {
+	private readonly include: readonly string[][];
+	private readonly exclude: readonly string[][];
+
+	constructor(include: readonly string[] = [], exclude: readonly string[] = []) {
+		this.include = include.map(toSegments);
+		this.exclude = exclude.map(toSegments);
+	}
+
+	/**
+	 * Checks whether a property, or an object it belongs to, matches an exclude glob.
+	 *
+	 * @param {string} path - The path of the property.
+	 * @returns {boolean} - True if the property must be left untouched.
+	 */
+	public isExcluded(path: string): boolean {
+		const segments = toSegments(path);
+		return this.exclude.some((pattern) => matchesPathOrAncestor(pattern, segments));
+	}
+
+	/**
+	 * Checks whether a property should be mocked: it is not excluded, and it or an object it belongs to
+	 * matches an include glob. Every property is included when there are no include globs.
+	 *
+	 * @param {string} path - The path of the property.
+	 * @returns {boolean} - True if the property should be mocked.
+	 */
+	public isIncluded(path: string): boolean {
+		const segments = toSegments(path);
+		return !this.isExcluded(path)
+			&& (!this.include.length || this.include.some((pattern) => matchesPathOrAncestor(pattern, segments)));
+	}
+
+	/**
+	 * Checks whether the properties of an object should be visited: the object is included,
+	 * or an include glob may match one of its properties.
+	 *
+	 * @param {string} path - The path of the object.
+	 * @returns {boolean} - True if the object should be traversed.
+	 */
+	public shouldTraverse(path: string): boolean {
+		const segments = toSegments(path);
+		return this.isIncluded(path)
+			|| (!this.isExcluded(path) && this.include.some((pattern) => matchSegments(pattern, segments, true)));
+	}
+}
+
+function toSegments(path: string): string[] {
+	return path.replace(/\[(\d+)]/g, ".$1").split(".");
+}
+
+function matchesPathOrAncestor(pattern: readonly string[], segments: readonly string[]): boolean {
+	return segments.some((_, index) => matchSegments(pattern, segments.slice(0, index + 1), false));
+}
+
+/**
+ * Matches path segments against glob segments.
+ *
+ * @param {string[]} pattern - The glob segments.
+ * @param {string[]} segments - The path segments.
+ * @param {boolean} prefix - Whether a path that ends before the glob does counts as a match, as a descendant may match.
+ * @returns {boolean} - True if the path matches.
+ */
+function matchSegments(pattern: readonly string[], segments: readonly string[], prefix: boolean): boolean {
+	if (!pattern.length) {
+		return !segments.length;
+	}
+	if (!segments.length) {
+		return prefix || pattern.every((segment) => segment === "**");
+	}
+	if (pattern[0] === "**") {
+		return matchSegments(pattern.slice(1), segments, prefix) || matchSegments(pattern, segments.slice(1), prefix);
+	}
+	return matchesSegment(pattern[0], segments[0]) && matchSegments(pattern.slice(1), segments.slice(1), prefix);
+}
+
+function matchesSegment(pattern: string, segment: string): boolean {
+	const source = pattern.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+	return new RegExp(`^${source}$`).test(segment);
+}
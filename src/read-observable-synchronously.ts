@@ -1,4 +1,5 @@
 import { Observable, skip, take, tap } from 'rxjs';
+import { ObservableDidNotEmitError } from './errors';
 
 /**
  * Reads and returns the value emitted by the given observable synchronously.
@@ -62,7 +63,7 @@ export function readObservableSynchronouslyAfterAction<T>(
 
 	if (!emitted) {
 		subscription.unsubscribe();
-		throw new Error(`observable did not emit (skips requested: ${skips}, total skipped emissions: ${emissionCount})`);
+		throw new ObservableDidNotEmitError("value", skips, emissionCount);
 	}
 
 	return actualResult;
@@ -111,7 +112,7 @@ export function readObservableErrorSynchronously(
 
 	if (!emitted) {
 		subscription.unsubscribe();
-		throw new Error(`observable did not emit error (skips requested: ${skips}, total skipped emissions: ${emissionCount}`);
+		throw new ObservableDidNotEmitError("error", skips, emissionCount);
 	}
 
 	return actualError;
@@ -173,7 +174,7 @@ export function readObservableCompletionSynchronously(observable$: Observable<an
 
 	if (!emitted) {
 		subscription.unsubscribe();
-		throw new Error(`observable did not complete (skips requested: ${skips}, total skipped emissions: ${emissionCount})`);
+		throw new ObservableDidNotEmitError("completion", skips, emissionCount);
 	}
 
 	return actualComplete;
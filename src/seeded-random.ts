@@ -0,0 +1,43 @@
+/**
+ * A small seedable pseudo-random number generator (mulberry32).
+ * The same seed always produces the same sequence of values.
+ */
+export class SeededRandom {
+	private state: number;
+
+	constructor(public readonly seed: number) {
+		this.state = seed >>> 0;
+	}
+
+	/**
+	 * Creates a seed suitable for a new SeededRandom.
+	 *
+	 * @returns {number} - A random unsigned 32-bit integer.
+	 */
+	public static createSeed(): number {
+		return Math.floor(Math.random() * 0x100000000);
+	}
+
+	/**
+	 * Returns the next value in the sequence.
+	 *
+	 * @returns {number} - A number greater than or equal to 0 and less than 1.
+	 */
+	public next(): number {
+		this.state = (this.state + 0x6D2B79F5) >>> 0;
+		let t = this.state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+	}
+
+	/**
+	 * Returns the next integer in the sequence.
+	 *
+	 * @param {number} max - The exclusive upper bound.
+	 * @returns {number} - An integer greater than or equal to 0 and less than max.
+	 */
+	public nextInt(max: number): number {
+		return Math.floor(this.next() * max);
+	}
+}
@@ -0,0 +1,48 @@
+import { AfterEachNotAvailableError } from "./errors";
+
+const afterSpecActions: (() => void)[] = [];
+let hooksRegistered = false;
+
+/**
+ * Registers the global ``` afterEach ``` hook that cleans up after every spec: it restores the statics mocked by
+ * ``` mockStatics ``` and clears the registry of ``` defaultAutoMockerInstance ```.
+ * Call it once, at the top level of a file loaded before the specs, e.g. the ``` test.ts ``` of Karma,
+ * a Jasmine helper or a Jest ``` setupFilesAfterEnv ``` file. Calling it again has no effect.
+ *
+ * @example
+ * // test.ts
+ * registerAutoMockerHooks();
+ *
+ * @returns {void}
+ * @throws {AfterEachNotAvailableError} - If the test runner provides no global ``` afterEach ```.
+ */
+export function registerAutoMockerHooks(): void {
+	if (hooksRegistered) {
+		return;
+	}
+	const afterEachHook: ((action: () => void) => void) | undefined = (globalThis as any).afterEach;
+	if (typeof afterEachHook !== "function") {
+		throw new AfterEachNotAvailableError();
+	}
+	afterEachHook(() => afterSpecActions.forEach((action) => action()));
+	hooksRegistered = true;
+}
+
+/**
+ * Checks whether ``` registerAutoMockerHooks ``` was called.
+ *
+ * @returns {boolean} - True if the hooks are registered.
+ */
+export function areAutoMockerHooksRegistered(): boolean {
+	return hooksRegistered;
+}
+
+/**
+ * Adds an action run at the end of every spec once ``` registerAutoMockerHooks ``` was called.
+ *
+ * @param {Function} action - The action.
+ * @returns {void}
+ */
+export function addAfterSpecAction(action: () => void): void {
+	afterSpecActions.push(action);
+}
@@ -0,0 +1,131 @@
+import { isObservable } from "rxjs";
+import { Accessor } from "@types-local";
+import { formatArguments, formatValue } from "../format-value";
+import { ISpyAdapter, ISpyCall } from "./spy-adapter";
+
+interface IBehaviorDescription {
+	readonly defaultBehavior: string;
+	readonly argumentBehaviors: readonly string[];
+}
+
+/**
+ * Wraps another spy adapter and records a human-readable description of the behavior configured on each spy,
+ * as spies of most test frameworks cannot be asked how they were configured.
+ */
+export class BehaviorRecordingSpyAdapter implements ISpyAdapter {
+	private readonly descriptions = new WeakMap<Function, IBehaviorDescription>();
+
+	constructor(private readonly spyAdapter: ISpyAdapter) {}
+
+	public get restoresAfterSpec(): boolean {
+		return !!this.spyAdapter.restoresAfterSpec;
+	}
+
+	/**
+	 * Retrieves the description of the behavior configured on a spy.
+	 *
+	 * @param {Function} spy - The spy.
+	 * @returns {string} - The description, e.g. ``` returns 1; returns 2 for (2) ```.
+	 */
+	public getBehaviorDescription(spy: Function): string {
+		const description = this.descriptions.get(spy);
+		return description
+			? [description.defaultBehavior, ...description.argumentBehaviors].join("; ")
+			: "not configured";
+	}
+
+	/**
+	 * Replaces the description of the default behavior of a spy, for behaviors implemented with a fake.
+	 *
+	 * @param {Function} spy - The spy.
+	 * @param {string} defaultBehavior - The description of the default behavior.
+	 * @returns {void}
+	 */
+	public setBehaviorDescription(spy: Function, defaultBehavior: string): void {
+		this.descriptions.set(spy, { defaultBehavior, argumentBehaviors: this.descriptions.get(spy)?.argumentBehaviors || [] });
+	}
+
+	public createSpy(name: string, originalFn?: Function): (...args: any[]) => any {
+		return this.spyAdapter.createSpy(name, originalFn);
+	}
+
+	public spyOnMethod<T>(obj: T, key: keyof T): (...args: any[]) => any {
+		return this.spyAdapter.spyOnMethod(obj, key);
+	}
+
+	public spyOnAccessor<T>(obj: T, key: keyof T, accessor: Accessor): (...args: any[]) => any {
+		return this.spyAdapter.spyOnAccessor(obj, key, accessor);
+	}
+
+	public getSpyName(spy: Function): string {
+		return this.spyAdapter.getSpyName(spy);
+	}
+
+	public isSpy(value: any): boolean {
+		return this.spyAdapter.isSpy(value);
+	}
+
+	public callFake(spy: Function, fakeFunction: (...args: any[]) => any): void {
+		this.spyAdapter.callFake(spy, fakeFunction);
+		this.setBehaviorDescription(spy, fakeFunction.name ? `calls fake ${fakeFunction.name}` : "calls fake");
+	}
+
+	public callThrough(spy: Function): void {
+		this.spyAdapter.callThrough(spy);
+		this.setBehaviorDescription(spy, "calls through");
+	}
+
+	public callOriginal(spy: Function, thisArg: any, args: any[]): any {
+		return this.spyAdapter.callOriginal(spy, thisArg, args);
+	}
+
+	public returnValue(spy: Function, value: any): void {
+		this.spyAdapter.returnValue(spy, value);
+		this.setBehaviorDescription(spy, `returns ${describeValue(value)}`);
+	}
+
+	public returnValues(spy: Function, values: any[]): void {
+		this.spyAdapter.returnValues(spy, values);
+		this.setBehaviorDescription(spy, `returns ${values.map(describeValue).join(", ")} in order`);
+	}
+
+	public throwError(spy: Function, message?: string | Error): void {
+		this.spyAdapter.throwError(spy, message);
+		this.setBehaviorDescription(spy, message === undefined ? "throws" : `throws ${formatValue(message)}`);
+	}
+
+	public returnValueForArguments(spy: Function, args: any[], value: any): void {
+		this.spyAdapter.returnValueForArguments(spy, args, value);
+		const description = this.descriptions.get(spy);
+		this.descriptions.set(spy, {
+			defaultBehavior: description?.defaultBehavior || "not configured",
+			argumentBehaviors: [
+				...(description?.argumentBehaviors || []),
+				`returns ${describeValue(value)} for ${formatArguments(args)}`
+			]
+		});
+	}
+
+	public resetCalls(spy: Function): void {
+		this.spyAdapter.resetCalls(spy);
+	}
+
+	public resetBehavior(spy: Function): void {
+		this.spyAdapter.resetBehavior(spy);
+		this.descriptions.delete(spy);
+	}
+
+	public getCalls(spy: Function): readonly ISpyCall[] {
+		return this.spyAdapter.getCalls(spy);
+	}
+}
+
+function describeValue(value: any): string {
+	if (isObservable(value)) {
+		return "an observable";
+	}
+	if (value instanceof Promise) {
+		return "a promise";
+	}
+	return formatValue(value);
+}
@@ -0,0 +1,134 @@
+import { Accessor } from "@types-local";
+import { AccessorNotFoundError, MethodNotFoundError } from "../errors";
+import { ISpyAdapter, ISpyCall } from "./spy-adapter";
+import { SpyBehavior } from "./spy-behavior";
+
+interface IBuiltInSpyState {
+	readonly behavior: SpyBehavior;
+	readonly calls: IBuiltInSpyCall[];
+}
+
+interface IBuiltInSpyCall extends ISpyCall {
+	returnValue?: any;
+	threw?: boolean;
+	error?: any;
+}
+
+const spyStates = new WeakMap<Function, IBuiltInSpyState>();
+let nextInvocationOrder = 0;
+
+/**
+ * A dependency-free spy adapter. Spies record their calls themselves and do not rely on any test framework.
+ */
+export class BuiltInSpyAdapter implements ISpyAdapter {
+	public createSpy(name: string, originalFn?: Function): (...args: any[]) => any {
+		const state: IBuiltInSpyState = {
+			behavior: new SpyBehavior(originalFn),
+			calls: []
+		};
+		const spy = function (this: any, ...args: any[]): any {
+			const call: IBuiltInSpyCall = { args, thisArg: this, invocationOrder: nextInvocationOrder++ };
+			state.calls.push(call);
+			try {
+				call.returnValue = state.behavior.invoke(this, args);
+			} catch (error) {
+				call.threw = true;
+				call.error = error;
+				throw error;
+			}
+			call.threw = false;
+			return call.returnValue;
+		};
+		Object.defineProperty(spy, "name", { value: name, configurable: true });
+		spyStates.set(spy, state);
+		return spy;
+	}
+
+	public spyOnMethod<T>(obj: T, key: keyof T): (...args: any[]) => any {
+		const original = obj[key];
+		if (this.isSpy(original)) {
+			return original as unknown as (...args: any[]) => any;
+		}
+		if (typeof original !== "function") {
+			throw new MethodNotFoundError("spyOnMethod", String(key));
+		}
+		const spy = this.createSpy(String(key), original);
+		obj[key] = spy as T[keyof T];
+		return spy;
+	}
+
+	public spyOnAccessor<T>(obj: T, key: keyof T, accessor: Accessor): (...args: any[]) => any {
+		let owner: any = obj;
+		let descriptor: PropertyDescriptor;
+		do {
+			descriptor = Object.getOwnPropertyDescriptor(owner, key);
+		} while (!descriptor && (owner = Object.getPrototypeOf(owner)));
+
+		if (!descriptor || !descriptor[accessor]) {
+			throw new AccessorNotFoundError("spyOnAccessor", String(key), accessor);
+		}
+		if (this.isSpy(descriptor[accessor])) {
+			return descriptor[accessor];
+		}
+
+		const spy = this.createSpy(`${String(key)}.${accessor}`, descriptor[accessor]);
+		Object.defineProperty(obj, key, {
+			...descriptor,
+			[accessor]: spy,
+			configurable: true
+		});
+		return spy;
+	}
+
+	public getSpyName(spy: Function): string {
+		return spy.name;
+	}
+
+	public isSpy(value: any): boolean {
+		return typeof value === "function" && spyStates.has(value);
+	}
+
+	public callFake(spy: Function, fakeFunction: (...args: any[]) => any): void {
+		this.getState(spy).behavior.callFake(fakeFunction);
+	}
+
+	public callThrough(spy: Function): void {
+		this.getState(spy).behavior.callThrough();
+	}
+
+	public callOriginal(spy: Function, thisArg: any, args: any[]): any {
+		return this.getState(spy).behavior.callOriginal(thisArg, args);
+	}
+
+	public returnValue(spy: Function, value: any): void {
+		this.getState(spy).behavior.returnValue(value);
+	}
+
+	public returnValues(spy: Function, values: any[]): void {
+		this.getState(spy).behavior.returnValues(values);
+	}
+
+	public throwError(spy: Function, message?: string | Error): void {
+		this.getState(spy).behavior.throwError(message);
+	}
+
+	public returnValueForArguments(spy: Function, args: any[], value: any): void {
+		this.getState(spy).behavior.returnValueForArguments(args, value);
+	}
+
+	public resetCalls(spy: Function): void {
+		this.getState(spy).calls.length = 0;
+	}
+
+	public resetBehavior(spy: Function): void {
+		this.getState(spy).behavior.reset();
+	}
+
+	public getCalls(spy: Function): readonly ISpyCall[] {
+		return [...this.getState(spy).calls];
+	}
+
+	private getState(spy: Function): IBuiltInSpyState {
+		return spyStates.get(spy);
+	}
+}
@@ -0,0 +1,29 @@
+import { ISpyAdapter } from "./spy-adapter";
+import { JasmineSpyAdapter } from "./jasmine-spy-adapter";
+import { JestSpyAdapter } from "./jest-spy-adapter";
+import { BuiltInSpyAdapter } from "./built-in-spy-adapter";
+
+export { ISpyAdapter, ISpyCall } from "./spy-adapter";
+export { JasmineSpyAdapter } from "./jasmine-spy-adapter";
+export { JestSpyAdapter, IJestLike, IJestMockFunction } from "./jest-spy-adapter";
+export { BuiltInSpyAdapter } from "./built-in-spy-adapter";
+export { BehaviorRecordingSpyAdapter } from "./behavior-recording-spy-adapter";
+
+/**
+ * Picks a spy adapter for the test framework the code is running under.
+ * Jasmine is preferred, then a global `jest` object, then the built-in adapter.
+ *
+ * @returns {ISpyAdapter} - The detected spy adapter.
+ */
+export function detectSpyAdapter(): ISpyAdapter {
+	const globals = globalThis as any;
+	if (globals.jasmine && typeof globals.jasmine.createSpy === "function") {
+		return new JasmineSpyAdapter();
+	}
+	/* istanbul ignore next: only reachable outside of jasmine */
+	if (globals.jest && typeof globals.jest.fn === "function") {
+		return new JestSpyAdapter(globals.jest);
+	}
+	/* istanbul ignore next: only reachable outside of jasmine */
+	return new BuiltInSpyAdapter();
+}
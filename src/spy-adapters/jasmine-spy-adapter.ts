@@ -0,0 +1,140 @@
+import { Accessor } from "@types-local";
+import { ISpyAdapter, ISpyCall } from "./spy-adapter";
+import { SpyBehavior } from "./spy-behavior";
+
+// Jasmine offers no public way to read the original function or the configured strategies of a spy
+const spyBehaviors = new WeakMap<Function, SpyBehavior>();
+
+/**
+ * Spy adapter backed by the Jasmine spy globals (`jasmine.createSpy`, `spyOn` and `spyOnProperty`).
+ * Jasmine records the calls, while the behavior of each spy is kept in a ``` SpyBehavior ```, like the other adapters do.
+ */
+export class JasmineSpyAdapter implements ISpyAdapter {
+	public readonly restoresAfterSpec = true;
+
+	public createSpy(name: string, originalFn?: Function): (...args: any[]) => any {
+		const spy = jasmine.createSpy(name, originalFn as jasmine.Func);
+		this.attachBehavior(spy, originalFn);
+		return spy;
+	}
+
+	public spyOnMethod<T>(obj: T, key: keyof T): (...args: any[]) => any {
+		const original = obj[key];
+		if (this.isSpy(original)) {
+			return original as unknown as jasmine.Spy;
+		}
+		const spy = spyOn(obj, key as T[keyof T] extends Function ? keyof T : never);
+		this.attachBehavior(spy, original as unknown as Function);
+		return spy;
+	}
+
+	public spyOnAccessor<T>(obj: T, key: keyof T, accessor: Accessor): (...args: any[]) => any {
+		let owner: any = obj;
+		let descriptor: PropertyDescriptor;
+		do {
+			descriptor = Object.getOwnPropertyDescriptor(owner, key);
+		} while (!descriptor && (owner = Object.getPrototypeOf(owner)));
+
+		const original = descriptor && descriptor[accessor];
+		if (this.isSpy(original)) {
+			return original;
+		}
+		const spy = spyOnProperty(obj, key, accessor as "get");
+		this.attachBehavior(spy, original);
+		return spy;
+	}
+
+	public getSpyName(spy: Function): string {
+		return (spy as jasmine.Spy).and.identity;
+	}
+
+	public isSpy(value: any): boolean {
+		return !!value && !!value.and && !!value.calls;
+	}
+
+	public callFake(spy: Function, fakeFunction: (...args: any[]) => any): void {
+		this.configure(spy).callFake(fakeFunction);
+	}
+
+	public callThrough(spy: Function): void {
+		this.configure(spy).callThrough();
+	}
+
+	public callOriginal(spy: Function, thisArg: any, args: any[]): any {
+		return this.getBehavior(spy).callOriginal(thisArg, args);
+	}
+
+	public returnValue(spy: Function, value: any): void {
+		this.configure(spy).returnValue(value);
+	}
+
+	public returnValues(spy: Function, values: any[]): void {
+		this.configure(spy).returnValues(values);
+	}
+
+	public throwError(spy: Function, message?: string | Error): void {
+		this.configure(spy).throwError(message);
+	}
+
+	public returnValueForArguments(spy: Function, args: any[], value: any): void {
+		this.configure(spy).returnValueForArguments(args, value);
+	}
+
+	public resetCalls(spy: Function): void {
+		(spy as jasmine.Spy).calls.reset();
+	}
+
+	public resetBehavior(spy: Function): void {
+		this.configure(spy).reset();
+	}
+
+	public getCalls(spy: Function): readonly ISpyCall[] {
+		return (spy as jasmine.Spy).calls.all().map((call) => ({
+			args: call.args,
+			thisArg: call.object,
+			invocationOrder: (call as jasmine.CallInfo<jasmine.Func> & { invocationOrder: number }).invocationOrder,
+			returnValue: call.returnValue,
+			threw: !("returnValue" in call)
+		}));
+	}
+
+	/**
+	 * Retrieves the behavior of a spy, taking over spies that were not created by this adapter.
+	 * Their original function is read from their default strategy, where Jasmine keeps it.
+	 *
+	 * @param {Function} spy - The spy.
+	 * @returns {SpyBehavior} - The behavior of the spy.
+	 * @private
+	 */
+	private getBehavior(spy: Function): SpyBehavior {
+		const jasmineSpy = spy as jasmine.Spy;
+		return spyBehaviors.get(spy) || this.attachBehavior(jasmineSpy, (jasmineSpy.and as any).originalFn);
+	}
+
+	/**
+	 * Retrieves the behavior of a spy to configure it, installing the behavior again,
+	 * as the spy may have been configured through ``` spy.and ``` in the meantime.
+	 *
+	 * @param {Function} spy - The spy.
+	 * @returns {SpyBehavior} - The behavior of the spy.
+	 * @private
+	 */
+	private configure(spy: Function): SpyBehavior {
+		const behavior = this.getBehavior(spy);
+		this.installBehavior(spy as jasmine.Spy, behavior);
+		return behavior;
+	}
+
+	private attachBehavior(spy: jasmine.Spy, originalFn?: Function): SpyBehavior {
+		const behavior = new SpyBehavior(originalFn);
+		spyBehaviors.set(spy, behavior);
+		this.installBehavior(spy, behavior);
+		return behavior;
+	}
+
+	private installBehavior(spy: jasmine.Spy, behavior: SpyBehavior): void {
+		spy.and.callFake(function (this: any, ...args: any[]) {
+			return behavior.invoke(this, args);
+		});
+	}
+}
@@ -0,0 +1,156 @@
+import { Accessor } from "@types-local";
+import { ISpyAdapter, ISpyCall } from "./spy-adapter";
+import { SpyBehavior } from "./spy-behavior";
+
+/**
+ * The subset of a Jest (or Vitest) mock function used by the JestSpyAdapter.
+ */
+export interface IJestMockFunction {
+	(...args: any[]): any;
+	readonly mock: {
+		readonly calls: any[][];
+		readonly contexts?: any[];
+		readonly instances: any[];
+		readonly invocationCallOrder: number[];
+		readonly results?: { readonly type: string; readonly value: any }[];
+	};
+	readonly _isMockFunction?: boolean;
+	mockImplementation(fn: (...args: any[]) => any): any;
+	mockClear(): any;
+	mockName?(name: string): any;
+	getMockName?(): string;
+	getMockImplementation(): ((...args: any[]) => any) | undefined;
+}
+
+/**
+ * The subset of the `jest` (or Vitest `vi`) object used by the JestSpyAdapter.
+ */
+export interface IJestLike {
+	fn(): IJestMockFunction;
+	spyOn(obj: any, key: any, accessType?: Accessor): IJestMockFunction;
+}
+
+const spyBehaviors = new WeakMap<Function, SpyBehavior>();
+
+/**
+ * Spy adapter backed by Jest-style mock functions. Works with `jest` as well as Vitest's `vi`.
+ *
+ * @example
+ * const autoMocker = new AutoMockerPlus({ spyAdapter: new JestSpyAdapter(jest) });
+ */
+export class JestSpyAdapter implements ISpyAdapter {
+	constructor(private readonly jestLike: IJestLike) {}
+
+	public createSpy(name: string, originalFn?: Function): (...args: any[]) => any {
+		const spy = this.jestLike.fn();
+		spy.mockName?.(name);
+		this.attachBehavior(spy, originalFn);
+		return spy;
+	}
+
+	public spyOnMethod<T>(obj: T, key: keyof T): (...args: any[]) => any {
+		const original = obj[key];
+		if (this.isSpy(original)) {
+			return original as unknown as IJestMockFunction;
+		}
+		const spy = this.jestLike.spyOn(obj, key);
+		this.attachBehavior(spy, original as unknown as Function);
+		return spy;
+	}
+
+	public spyOnAccessor<T>(obj: T, key: keyof T, accessor: Accessor): (...args: any[]) => any {
+		let owner: any = obj;
+		let descriptor: PropertyDescriptor;
+		do {
+			descriptor = Object.getOwnPropertyDescriptor(owner, key);
+		} while (!descriptor && (owner = Object.getPrototypeOf(owner)));
+
+		const original = descriptor && descriptor[accessor];
+		if (this.isSpy(original)) {
+			return original;
+		}
+		const spy = this.jestLike.spyOn(obj, key, accessor);
+		this.attachBehavior(spy, original);
+		return spy;
+	}
+
+	public getSpyName(spy: Function): string {
+		const mockFunction = spy as IJestMockFunction;
+		return mockFunction.getMockName ? mockFunction.getMockName() : mockFunction.name;
+	}
+
+	public isSpy(value: any): boolean {
+		return typeof value === "function" && value._isMockFunction === true;
+	}
+
+	public callFake(spy: Function, fakeFunction: (...args: any[]) => any): void {
+		this.getBehavior(spy).callFake(fakeFunction);
+	}
+
+	public callThrough(spy: Function): void {
+		this.getBehavior(spy).callThrough();
+	}
+
+	public callOriginal(spy: Function, thisArg: any, args: any[]): any {
+		return this.getBehavior(spy).callOriginal(thisArg, args);
+	}
+
+	public returnValue(spy: Function, value: any): void {
+		this.getBehavior(spy).returnValue(value);
+	}
+
+	public returnValues(spy: Function, values: any[]): void {
+		this.getBehavior(spy).returnValues(values);
+	}
+
+	public throwError(spy: Function, message?: string | Error): void {
+		this.getBehavior(spy).throwError(message);
+	}
+
+	public returnValueForArguments(spy: Function, args: any[], value: any): void {
+		this.getBehavior(spy).returnValueForArguments(args, value);
+	}
+
+	public resetCalls(spy: Function): void {
+		(spy as IJestMockFunction).mockClear();
+	}
+
+	public resetBehavior(spy: Function): void {
+		this.getBehavior(spy).reset();
+	}
+
+	public getCalls(spy: Function): readonly ISpyCall[] {
+		const mock = (spy as IJestMockFunction).mock;
+		const contexts = mock.contexts || mock.instances;
+		return mock.calls.map((args, i) => ({
+			args,
+			thisArg: contexts[i],
+			invocationOrder: mock.invocationCallOrder[i],
+			returnValue: mock.results?.[i]?.type === "return" ? mock.results[i].value : undefined,
+			threw: mock.results?.[i] ? mock.results[i].type === "throw" : undefined,
+			error: mock.results?.[i]?.type === "throw" ? mock.results[i].value : undefined
+		}));
+	}
+
+	/**
+	 * Retrieves the behavior of a mock function, taking over mock functions that were not created by this adapter.
+	 *
+	 * @param {Function} spy - The mock function.
+	 * @returns {SpyBehavior} - The behavior of the mock function.
+	 * @private
+	 */
+	private getBehavior(spy: Function): SpyBehavior {
+		const mockFunction = spy as IJestMockFunction;
+		return spyBehaviors.get(mockFunction)
+			|| this.attachBehavior(mockFunction, mockFunction.getMockImplementation());
+	}
+
+	private attachBehavior(spy: IJestMockFunction, originalFn?: Function): SpyBehavior {
+		const behavior = new SpyBehavior(originalFn);
+		spyBehaviors.set(spy, behavior);
+		spy.mockImplementation(function (this: any, ...args: any[]) {
+			return behavior.invoke(this, args);
+		});
+		return behavior;
+	}
+}
@@ -0,0 +1,183 @@
+import { Accessor } from "@types-local";
+
+/**
+ * Represents a single recorded invocation of a spy.
+ *
+ * @template TFunction - The type of the spied function.
+ */
+export interface ISpyCall<TFunction extends (...args: any[]) => any = (...args: any[]) => any> {
+	/**
+	 * The arguments the spy was invoked with.
+	 */
+	readonly args: Parameters<TFunction>;
+	/**
+	 * The `this` context the spy was invoked with.
+	 */
+	readonly thisArg: any;
+	/**
+	 * The position of the call among the calls of every spy created by the same adapter type.
+	 * Used to compare the order of calls across spies.
+	 */
+	readonly invocationOrder: number;
+	/**
+	 * The value the spy returned. Undefined when the call has not returned yet, threw,
+	 * or the adapter cannot tell what the spy returned.
+	 */
+	readonly returnValue?: ReturnType<TFunction>;
+	/**
+	 * Whether the call threw instead of returning. Jasmine does not record errors, so its adapter
+	 * reports every call without a recorded return value, including calls still in progress, as thrown.
+	 */
+	readonly threw?: boolean;
+	/**
+	 * The error the call threw. Undefined when the call did not throw, or when using Jasmine.
+	 */
+	readonly error?: any;
+}
+
+/**
+ * Abstraction over a test framework's spy implementation.
+ * AutoMocker only talks to spies through an adapter, which allows the same mocks to be used under
+ * Jasmine, Jest, Vitest or without any test framework at all.
+ */
+export interface ISpyAdapter {
+	/**
+	 * Whether the test framework puts back the methods and accessors replaced by ``` spyOnMethod ``` and ``` spyOnAccessor ```
+	 * at the end of each spec on its own.
+	 */
+	readonly restoresAfterSpec?: boolean;
+
+	/**
+	 * Creates a standalone spy. The spy returns undefined until it is configured.
+	 *
+	 * @param {string} name - The name of the spy.
+	 * @param {Function} [originalFn] - The function to invoke when the spy is set to call through.
+	 * @returns {Function} - The created spy.
+	 */
+	createSpy(name: string, originalFn?: Function): (...args: any[]) => any;
+
+	/**
+	 * Replaces a method on an object with a spy. The spy does not call the original method until it is configured to.
+	 *
+	 * @param {T} obj - The object that owns the method.
+	 * @param {keyof T} key - The name of the method.
+	 * @returns {Function} - The installed spy.
+	 */
+	spyOnMethod<T>(obj: T, key: keyof T): (...args: any[]) => any;
+
+	/**
+	 * Replaces a property accessor on an object with a spy. The spy does not call the original accessor until it is configured to.
+	 *
+	 * @param {T} obj - The object that owns the property.
+	 * @param {keyof T} key - The name of the property.
+	 * @param {Accessor} accessor - The accessor to spy on.
+	 * @returns {Function} - The installed spy.
+	 */
+	spyOnAccessor<T>(obj: T, key: keyof T, accessor: Accessor): (...args: any[]) => any;
+
+	/**
+	 * Retrieves the name the spy was created with.
+	 *
+	 * @param {Function} spy - The spy.
+	 * @returns {string} - The name of the spy.
+	 */
+	getSpyName(spy: Function): string;
+
+	/**
+	 * Checks whether the given value is a spy this adapter can work with.
+	 *
+	 * @param {any} value - The value to check.
+	 * @returns {boolean} - True if the value is a spy, false otherwise.
+	 */
+	isSpy(value: any): boolean;
+
+	/**
+	 * Makes the spy invoke the given function whenever it is called.
+	 *
+	 * @param {Function} spy - The spy to configure.
+	 * @param {Function} fakeFunction - The function to invoke.
+	 * @returns {void}
+	 */
+	callFake(spy: Function, fakeFunction: (...args: any[]) => any): void;
+
+	/**
+	 * Makes the spy invoke the original function whenever it is called.
+	 *
+	 * @param {Function} spy - The spy to configure.
+	 * @returns {void}
+	 */
+	callThrough(spy: Function): void;
+
+	/**
+	 * Invokes the original function of the spy, regardless of how the spy is configured. Does not record a call.
+	 *
+	 * @param {Function} spy - The spy whose original function to invoke.
+	 * @param {any} thisArg - The `this` context to invoke the original function with.
+	 * @param {any[]} args - The arguments to invoke the original function with.
+	 * @returns {any} - The result of the original function, or undefined if the spy has none.
+	 */
+	callOriginal(spy: Function, thisArg: any, args: any[]): any;
+
+	/**
+	 * Makes the spy return the given value whenever it is called.
+	 *
+	 * @param {Function} spy - The spy to configure.
+	 * @param {any} value - The value to return.
+	 * @returns {void}
+	 */
+	returnValue(spy: Function, value: any): void;
+
+	/**
+	 * Makes the spy return the given values in order. Once the values are exhausted, the spy returns undefined.
+	 *
+	 * @param {Function} spy - The spy to configure.
+	 * @param {any[]} values - The values to return.
+	 * @returns {void}
+	 */
+	returnValues(spy: Function, values: any[]): void;
+
+	/**
+	 * Makes the spy throw whenever it is called.
+	 *
+	 * @param {Function} spy - The spy to configure.
+	 * @param {string | Error} [message] - The error, or the message of the error, to throw.
+	 * @returns {void}
+	 */
+	throwError(spy: Function, message?: string | Error): void;
+
+	/**
+	 * Makes the spy return the given value when it is called with arguments equal to `args`.
+	 * Calls with any other arguments keep their current behavior.
+	 *
+	 * @param {Function} spy - The spy to configure.
+	 * @param {any[]} args - The arguments to match.
+	 * @param {any} value - The value to return.
+	 * @returns {void}
+	 */
+	returnValueForArguments(spy: Function, args: any[], value: any): void;
+
+	/**
+	 * Clears the calls recorded by the spy. Configured behavior is kept.
+	 *
+	 * @param {Function} spy - The spy to reset.
+	 * @returns {void}
+	 */
+	resetCalls(spy: Function): void;
+
+	/**
+	 * Clears the configured behavior of the spy, including the values registered for arguments,
+	 * so that it returns undefined for every call. Recorded calls are kept.
+	 *
+	 * @param {Function} spy - The spy to reset.
+	 * @returns {void}
+	 */
+	resetBehavior(spy: Function): void;
+
+	/**
+	 * Retrieves the calls recorded by the spy, in the order they were made.
+	 *
+	 * @param {Function} spy - The spy to inspect.
+	 * @returns {ISpyCall[]} - The recorded calls.
+	 */
+	getCalls(spy: Function): readonly ISpyCall[];
+}
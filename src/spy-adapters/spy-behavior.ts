@@ -0,0 +1,78 @@
+import { argumentMatches } from "../argument-matchers";
+
+type SpyStrategy = (thisArg: any, args: any[]) => any;
+
+interface IArgumentStrategy {
+	readonly args: any[];
+	readonly strategy: SpyStrategy;
+}
+
+/**
+ * Holds the configured behavior of a spy for adapters whose underlying spies cannot be configured
+ * the way Jasmine spies can. Mirrors the semantics of Jasmine's spy strategies.
+ */
+export class SpyBehavior {
+	private defaultStrategy: SpyStrategy = () => undefined;
+	private readonly argumentStrategies: IArgumentStrategy[] = [];
+
+	constructor(private readonly originalFn?: Function) {}
+
+	public callFake(fakeFunction: (...args: any[]) => any): void {
+		this.defaultStrategy = (thisArg, args) => fakeFunction.apply(thisArg, args);
+	}
+
+	public callThrough(): void {
+		this.defaultStrategy = (thisArg, args) => this.callOriginal(thisArg, args);
+	}
+
+	public returnValue(value: any): void {
+		this.defaultStrategy = () => value;
+	}
+
+	public returnValues(values: any[]): void {
+		const remaining = [...values];
+		this.defaultStrategy = () => remaining.shift();
+	}
+
+	public throwError(message?: string | Error): void {
+		this.defaultStrategy = () => {
+			throw message instanceof Error ? message : new Error(message);
+		};
+	}
+
+	public returnValueForArguments(args: any[], value: any): void {
+		const existingIndex = this.argumentStrategies.findIndex((entry) => argumentMatches(entry.args, args));
+		if (existingIndex >= 0) {
+			this.argumentStrategies.splice(existingIndex, 1);
+		}
+		this.argumentStrategies.push({ args, strategy: () => value });
+	}
+
+	public reset(): void {
+		this.defaultStrategy = () => undefined;
+		this.argumentStrategies.length = 0;
+	}
+
+	/**
+	 * Invokes the strategy matching the given arguments, falling back to the default strategy.
+	 *
+	 * @param {any} thisArg - The `this` context of the call.
+	 * @param {any[]} args - The arguments of the call.
+	 * @returns {any} - The result of the strategy.
+	 */
+	public invoke(thisArg: any, args: any[]): any {
+		const match = this.argumentStrategies.find((entry) => argumentMatches(entry.args, args));
+		return (match ? match.strategy : this.defaultStrategy)(thisArg, args);
+	}
+
+	/**
+	 * Invokes the original function, regardless of the configured strategies.
+	 *
+	 * @param {any} thisArg - The `this` context of the call.
+	 * @param {any[]} args - The arguments of the call.
+	 * @returns {any} - The result of the original function.
+	 */
+	public callOriginal(thisArg: any, args: any[]): any {
+		return this.originalFn?.apply(thisArg, args);
+	}
+}
@@ -0,0 +1,222 @@
+import { SeededRandom } from "./seeded-random";
+
+/**
+ * The types of values ``` AutoMocker.mock ``` generates replacements for.
+ */
+export type GeneratedValueType = "string" | "number" | "boolean" | "bigint" | "date";
+
+/**
+ * Describes the property a value is generated for.
+ */
+export interface IValueGeneratorContext {
+	/**
+	 * The path of the property, e.g. ``` config.http.timeout ``` or ``` config.servers.0.host ```.
+	 */
+	readonly path: string;
+	/**
+	 * The name of the property, or the index of an array item.
+	 */
+	readonly key: string;
+	/**
+	 * The value being replaced.
+	 */
+	readonly value: any;
+	/**
+	 * The type of the value being replaced.
+	 */
+	readonly type: GeneratedValueType;
+	/**
+	 * The seeded random source of the AutoMocker. Generators should only use this source, so a seed replays the same values.
+	 */
+	readonly random: SeededRandom;
+}
+
+/**
+ * Creates the value that replaces a property of a mocked object.
+ */
+export type ValueGenerator<T = any> = (context: IValueGeneratorContext) => T;
+
+interface IKeyGenerator {
+	readonly pattern: RegExp | string;
+	readonly types: readonly GeneratedValueType[];
+	readonly generator: ValueGenerator;
+}
+
+const allValueTypes: readonly GeneratedValueType[] = ["string", "number", "boolean", "bigint", "date"];
+
+/**
+ * Holds the generators ``` AutoMocker.mock ``` uses to replace strings, numbers, booleans, bigints and dates.
+ * Generators registered for a key pattern take precedence over generators registered for a type,
+ * and among either kind the generator registered last wins.
+ *
+ * @example
+ * autoMocker.valueGenerators
+ *   .forKey(/status$/, enumValue(Status), ["number"])
+ *   .forType("date", relativeDate(new Date("2024-01-01"), 30));
+ */
+export class ValueGeneratorRegistry {
+	private readonly typeGenerators = new Map<GeneratedValueType, ValueGenerator>();
+	private readonly keyGenerators: IKeyGenerator[] = [];
+
+	/**
+	 * Creates a registry with the default generators:
+	 * - strings become the property path followed by a random number
+	 * - numbers become a random integer between 0 and 999
+	 * - booleans become a random boolean
+	 * - bigints become a random bigint between 0 and 999
+	 * - dates become a random date between 2000-01-01 and 2030-01-01 (UTC)
+	 * - strings of keys such as ``` id ``` or ending in ``` Id ``` become UUIDs
+	 * - strings of keys containing ``` email ``` become email addresses
+	 *
+	 * @returns {ValueGeneratorRegistry} - The registry.
+	 */
+	public static createDefault(): ValueGeneratorRegistry {
+		return new ValueGeneratorRegistry()
+			.forType("string", ({ path, random }) => path + random.nextInt(1000).toString())
+			.forType("number", ({ random }) => random.nextInt(1000))
+			.forType("boolean", ({ random }) => random.next() < 0.5)
+			.forType("bigint", ({ random }) => BigInt(random.nextInt(1000)))
+			.forType("date", ({ random }) => {
+				const start = Date.UTC(2000, 0, 1);
+				const end = Date.UTC(2030, 0, 1);
+				return new Date(start + random.nextInt(end - start));
+			})
+			.forKey(/^(id|uuid|guid)$|(Id|ID|Uuid|Guid)$/, uuid(), ["string"])
+			.forKey(/e-?mail/i, email(), ["string"]);
+	}
+
+	/**
+	 * Registers the generator for every value of a type that no key generator handles.
+	 *
+	 * @param {GeneratedValueType} type - The type of the values.
+	 * @param {ValueGenerator} generator - The generator.
+	 * @returns {ValueGeneratorRegistry} - The registry, for chaining.
+	 */
+	public forType(type: GeneratedValueType, generator: ValueGenerator): this {
+		this.typeGenerators.set(type, generator);
+		return this;
+	}
+
+	/**
+	 * Registers a generator for the properties whose name matches a pattern.
+	 *
+	 * @param {RegExp | string} pattern - A regular expression tested against the property name, or the exact property name.
+	 * @param {ValueGenerator} generator - The generator.
+	 * @param {GeneratedValueType[]} [types] - The types of values the generator replaces. Defaults to every type.
+	 * @returns {ValueGeneratorRegistry} - The registry, for chaining.
+	 */
+	public forKey(
+		pattern: RegExp | string,
+		generator: ValueGenerator,
+		types: readonly GeneratedValueType[] = allValueTypes
+	): this {
+		this.keyGenerators.push({ pattern, types, generator });
+		return this;
+	}
+
+	/**
+	 * Generates the replacement of a value.
+	 *
+	 * @param {IValueGeneratorContext} context - The property the value is generated for.
+	 * @returns {any} - The generated value, or the original value when no generator handles it.
+	 */
+	public generate(context: IValueGeneratorContext): any {
+		const keyGenerator = this.keyGenerators
+			.slice()
+			.reverse()
+			.find(({ pattern, types }) => types.includes(context.type) && matchesKey(pattern, context.key));
+		const generator = keyGenerator?.generator ?? this.typeGenerators.get(context.type);
+		return generator ? generator(context) : context.value;
+	}
+}
+
+/**
+ * Determines the type of a value generators can replace.
+ *
+ * @param {any} value - The value.
+ * @returns {GeneratedValueType | undefined} - The type, or undefined when the value is not generated.
+ */
+export function getGeneratedValueType(value: any): GeneratedValueType | undefined {
+	if (Object.prototype.toString.call(value) === "[object Date]") {
+		return "date";
+	}
+	const type = typeof value;
+	return type === "string" || type === "number" || type === "boolean" || type === "bigint" ? type : undefined;
+}
+
+/**
+ * Creates a generator of version 4 UUIDs.
+ *
+ * @returns {ValueGenerator<string>} - The generator.
+ */
+export function uuid(): ValueGenerator<string> {
+	return ({ random }) => {
+		const hex = Array.from({ length: 32 }, () => random.nextInt(16).toString(16));
+		hex[12] = "4";
+		hex[16] = (8 + random.nextInt(4)).toString(16);
+		const digits = hex.join("");
+		return `${digits.slice(0, 8)}-${digits.slice(8, 12)}-${digits.slice(12, 16)}-${digits.slice(16, 20)}-${digits.slice(20)}`;
+	};
+}
+
+const firstNames = ["ada", "alan", "barbara", "dennis", "grace", "ken", "linus", "margaret"];
+const lastNames = ["hamilton", "hopper", "kernighan", "liskov", "lovelace", "ritchie", "torvalds", "turing"];
+
+/**
+ * Creates a generator of email addresses such as ``` grace.hopper42@example.com ```.
+ *
+ * @param {string} [domain] - The domain of the addresses. Defaults to ``` example.com ```.
+ * @returns {ValueGenerator<string>} - The generator.
+ */
+export function email(domain: string = "example.com"): ValueGenerator<string> {
+	return ({ random }) => {
+		const firstName = firstNames[random.nextInt(firstNames.length)];
+		const lastName = lastNames[random.nextInt(lastNames.length)];
+		return `${firstName}.${lastName}${random.nextInt(100)}@${domain}`;
+	};
+}
+
+/**
+ * Creates a generator of dates within a number of days before or after a fixed moment,
+ * so specs comparing dates to that moment do not depend on the current time.
+ *
+ * @param {Date} now - The fixed moment.
+ * @param {number} [maxOffsetDays] - The maximum number of days between a date and ``` now ```. Defaults to 365.
+ * @returns {ValueGenerator<Date>} - The generator.
+ */
+export function relativeDate(now: Date, maxOffsetDays: number = 365): ValueGenerator<Date> {
+	const maxOffset = maxOffsetDays * 24 * 60 * 60 * 1000;
+	return ({ random }) => new Date(now.getTime() - maxOffset + random.nextInt(2 * maxOffset + 1));
+}
+
+/**
+ * Creates a generator that picks one of the given values.
+ *
+ * @param {T[]} values - The values to pick from.
+ * @returns {ValueGenerator<T>} - The generator.
+ */
+export function oneOf<T>(values: readonly T[]): ValueGenerator<T> {
+	return ({ random }) => values[random.nextInt(values.length)];
+}
+
+/**
+ * Creates a generator that picks one of the members of an enum. Enums cannot be told apart from
+ * other numbers and strings at runtime, so register the generator for the keys that hold the enum.
+ *
+ * @example
+ * autoMocker.valueGenerators.forKey("status", enumValue(Status));
+ *
+ * @param {object} enumObject - The enum.
+ * @returns {ValueGenerator} - The generator.
+ */
+export function enumValue<T extends Record<string, string | number>>(enumObject: T): ValueGenerator<T[keyof T]> {
+	// Numeric enums map their values back to their names, which are not members
+	const members = Object.keys(enumObject)
+		.filter((name) => isNaN(Number(name)))
+		.map((name) => enumObject[name] as T[keyof T]);
+	return oneOf(members);
+}
+
+function matchesKey(pattern: RegExp | string, key: string): boolean {
+	return typeof pattern === "string" ? pattern === key : pattern.test(key);
+}
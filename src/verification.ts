@@ -0,0 +1,120 @@
+import { formatArguments } from "./format-value";
+import { ISpyCall } from "./spy-adapters";
+
+/**
+ * The number of calls ``` AutoMocker.verify ``` expects. Create modes with ``` times ```, ``` atLeast ```, ``` atMost ``` or ``` never ```.
+ */
+export class VerificationMode {
+	constructor(
+		private readonly description: string,
+		private readonly predicate: (callCount: number) => boolean
+	) {}
+
+	/**
+	 * Checks whether the number of matching calls satisfies the mode.
+	 *
+	 * @param {number} callCount - The number of matching calls.
+	 * @returns {boolean} - True if the number of calls is as expected.
+	 */
+	public matches(callCount: number): boolean {
+		return this.predicate(callCount);
+	}
+
+	public toString(): string {
+		return this.description;
+	}
+}
+
+/**
+ * Expects exactly the given number of calls.
+ *
+ * @param {number} count - The number of calls.
+ * @returns {VerificationMode} - The mode.
+ */
+export function times(count: number): VerificationMode {
+	return new VerificationMode(`exactly ${describeCount(count)}`, (callCount) => callCount === count);
+}
+
+/**
+ * Expects the given number of calls or more.
+ *
+ * @param {number} count - The minimum number of calls.
+ * @returns {VerificationMode} - The mode.
+ */
+export function atLeast(count: number): VerificationMode {
+	return new VerificationMode(`at least ${describeCount(count)}`, (callCount) => callCount >= count);
+}
+
+/**
+ * Expects the given number of calls or fewer.
+ *
+ * @param {number} count - The maximum number of calls.
+ * @returns {VerificationMode} - The mode.
+ */
+export function atMost(count: number): VerificationMode {
+	return new VerificationMode(`at most ${describeCount(count)}`, (callCount) => callCount <= count);
+}
+
+/**
+ * Expects no calls.
+ *
+ * @returns {VerificationMode} - The mode.
+ */
+export function never(): VerificationMode {
+	return new VerificationMode("exactly 0 times", (callCount) => callCount === 0);
+}
+
+/**
+ * A call that was not accounted for by ``` AutoMocker.verify ```.
+ */
+export interface IUnverifiedCall {
+	/**
+	 * The name of the mock member that was called, e.g. ``` Repository.isReady (get) ```.
+	 */
+	readonly name: string;
+	/**
+	 * The call.
+	 */
+	readonly call: ISpyCall;
+}
+
+/**
+ * Creates the failure message of ``` AutoMocker.verify ```.
+ *
+ * @param {string} expectedCall - The spy name, followed by the expected arguments if any.
+ * @param {VerificationMode} mode - The expected number of calls.
+ * @param {number} matchingCallCount - The number of matching calls.
+ * @param {ISpyCall[]} calls - Every call of the spy.
+ * @returns {string} - The message.
+ */
+export function createVerificationFailureMessage(
+	expectedCall: string,
+	mode: VerificationMode,
+	matchingCallCount: number,
+	calls: readonly ISpyCall[]
+): string {
+	const recordedCalls = calls.length
+		? calls.map((call, index) => `\n  ${index + 1}. ${formatArguments(call.args)}`).join("")
+		: "\n  (no calls)";
+	return `Expected ${expectedCall} to be called ${mode}, but it was called ${describeCount(matchingCallCount)}.`
+		+ `\nRecorded calls:${recordedCalls}`;
+}
+
+/**
+ * Creates the failure message of ``` AutoMocker.verifyNoMoreInteractions ```.
+ *
+ * @param {string} mockName - The name of the mock.
+ * @param {IUnverifiedCall[]} unverifiedCalls - The unverified calls, in the order they were made.
+ * @returns {string} - The message.
+ */
+export function createUnverifiedCallsMessage(mockName: string, unverifiedCalls: readonly IUnverifiedCall[]): string {
+	const calls = unverifiedCalls
+		.map(({ name, call }, index) => `\n  ${index + 1}. ${name}${formatArguments(call.args)}`)
+		.join("");
+	return `Expected no more interactions with ${mockName}, but found ${unverifiedCalls.length} unverified `
+		+ `${unverifiedCalls.length === 1 ? "call" : "calls"}:${calls}`;
+}
+
+function describeCount(count: number): string {
+	return `${count} ${count === 1 ? "time" : "times"}`;
+}